@@ -1,83 +1,267 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { useGeminiLive } from './hooks/useGeminiLive';
-import { ConnectionState, UserProgress } from './types';
+import { useProfiles, DEFAULT_PROGRESS } from './hooks/useProfiles';
+import { useCurricula } from './hooks/useCurricula';
+import { useSessionLimit } from './hooks/useSessionLimit';
+import { useRecordings } from './hooks/useRecordings';
+import { ConnectionState, EvaluationRecord, LevelChange, SafetyAlert, SessionRecord, SessionRecording } from './types';
 import Visualizer from './components/Visualizer';
-import { Mic, Power, GraduationCap, PlayCircle, Loader2, Star, BookOpen } from 'lucide-react';
+import ProfilePicker from './components/ProfilePicker';
+import MasteryList from './components/MasteryList';
+import LevelCelebration from './components/LevelCelebration';
+import BadgeCelebration from './components/BadgeCelebration';
+import BadgeGallery from './components/BadgeGallery';
+import BreakNotice from './components/BreakNotice';
+import PinGate from './components/PinGate';
+import ParentDashboard from './components/ParentDashboard';
+import PersonaPicker from './components/PersonaPicker';
+import PersonaFace from './components/PersonaFace';
+import VisualAidDisplay from './components/VisualAidDisplay';
+import TalkButton from './components/TalkButton';
+import AnswerChoices from './components/AnswerChoices';
+import LessonProgressBar from './components/LessonProgressBar';
+import LessonSummaryCard from './components/LessonSummaryCard';
+import { Mic, Power, GraduationCap, PlayCircle, Star, BookOpen, Sparkles, Lock, Moon, Timer, Hand } from 'lucide-react';
+import { createId } from './utils/ids';
+import { getScreenTimeStatus } from './utils/screenTime';
+import { hasParentPin } from './utils/parentPin';
+import { DEFAULT_SOUNDS, soundEngine } from './utils/soundEffects';
+import { isLessonComplete, LESSON_LENGTHS, summarizeLesson } from './utils/lesson';
+import { getAdaptiveLevel, isPromotion } from './utils/adaptive';
+import { getCurriculumLevel, getLevelIds, getLocalizedName, localizeTopic } from './utils/curriculum';
+import { createTranslator, DEFAULT_LANGUAGE, I18nContext } from './i18n';
+import { createMockTransport, MOCK_SCRIPTS } from './services/mockTransport';
+import { getPersona, PERSONAS } from './personas';
+import { BADGES, getBadge } from './achievements';
 
-const STORAGE_KEY = 'mimi_user_progress_v1';
-
-const DEFAULT_PROGRESS: UserProgress = {
-    difficulty: 'Easy',
-    stars: 0,
-    completedTopics: []
-};
-
-// Define topics available per difficulty
-const TOPICS_BY_DIFFICULTY: Record<string, string[]> = {
-    'Easy': ['Colors', 'Animals', 'Numbers', 'Fruits'],
-    'Medium': ['Shapes', 'Math', 'Weather', 'Days'],
-    'Hard': ['Science', 'Geography', 'Time', 'Space']
-};
+// Add ?mock (or ?mock=<script name>) to the URL to run against the offline scripted session
+const MOCK_SCRIPT = new URLSearchParams(window.location.search).get('mock');
+const LIVE_TRANSPORT = MOCK_SCRIPT !== null
+    ? createMockTransport(MOCK_SCRIPTS[MOCK_SCRIPT] ?? MOCK_SCRIPTS.lesson)
+    : undefined;
 
 const App: React.FC = () => {
-  const [progress, setProgress] = useState<UserProgress>(DEFAULT_PROGRESS);
+  const {
+      profiles,
+      activeProfile,
+      hasLoaded,
+      selectProfile,
+      createProfile,
+      updateProfile,
+      deleteProfile,
+      updateProgress,
+      recordEvaluation,
+      recordLevelChange,
+      recordSession,
+      recordTranscript,
+      recordSafetyAlert,
+      importProfile
+  } = useProfiles();
+  const { packs, importedPacks, importPack, removePack, getPack } = useCurricula();
+  const { recordings, isAvailable: isRecordingAvailable, addRecording, deleteRecording, downloadRecording } = useRecordings(profiles, hasLoaded);
   const [selectedTopic, setSelectedTopic] = useState<string | undefined>(undefined);
-  const [hasLoaded, setHasLoaded] = useState(false);
+  const [levelCelebration, setLevelCelebration] = useState<LevelChange | null>(null);
+  // Session of the lesson that just ended, for its summary card
+  const [finishedLessonId, setFinishedLessonId] = useState<string | null>(null);
+  const [parentArea, setParentArea] = useState<'closed' | 'pin' | 'open'>('closed');
+  // Grown-up action waiting for the PIN, such as changing the level or allowing more time
+  const [pinRequest, setPinRequest] = useState<{ title?: string; onUnlock: () => void } | null>(null);
+  // When the current class must end because of a screen-time limit
+  const [sessionEndsAt, setSessionEndsAt] = useState<number | null>(null);
+  const [showBreak, setShowBreak] = useState(false);
+  const [isSafetyPaused, setIsSafetyPaused] = useState(false);
+  // Badges earned during this visit, celebrated one at a time
+  const [badgeQueue, setBadgeQueue] = useState<string[]>([]);
+  const seenBadgesRef = useRef<{ profileId?: string; count: number }>({ count: 0 });
+
+  // Answers given at the current level in this session, for adaptive difficulty
+  const recentAnswersRef = useRef<boolean[]>([]);
+  // Lets the evaluation callback reach updateDifficulty, which is returned by the same hook it is passed to
+  const updateDifficultyRef = useRef<(difficulty: string) => void>(() => {});
+
+  const progress = activeProfile?.progress ?? DEFAULT_PROGRESS;
+  const curriculum = getPack(progress.curriculumId);
+  const levelIds = getLevelIds(curriculum);
+  const currentLevel = getCurriculumLevel(curriculum, progress.difficulty);
+  const persona = getPersona(activeProfile?.personaId);
+  const teacher = persona.name;
+  const isPushToTalk = activeProfile?.listeningMode === 'pushToTalk';
+  const lastTopic = activeProfile?.evaluations.filter(e => e.isCorrect && e.topic).pop()?.topic;
+
+  // The UI follows the language of whoever is learning
+  const language = activeProfile?.language ?? DEFAULT_LANGUAGE;
+  const i18n = useMemo(() => createTranslator(language), [language]);
+  const { t } = i18n;
+  const formatTopic = (topic: string) => localizeTopic(curriculum, topic, language);
 
-  // Load progress on mount
   useEffect(() => {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-          try {
-              setProgress(JSON.parse(saved));
-          } catch (e) {
-              console.error("Failed to load progress", e);
-          }
-      }
-      setHasLoaded(true);
-  }, []);
+      document.documentElement.lang = language;
+  }, [language]);
+
+  // Sound effects follow the settings of whoever is learning
+  useEffect(() => {
+      soundEngine.setSettings(activeProfile?.sounds ?? DEFAULT_SOUNDS);
+  }, [activeProfile?.sounds]);
 
-  // Save progress whenever it changes (debounced slightly by nature of React updates)
+  // Only badges added while the same child is playing are celebrated, not ones loaded with the profile
   useEffect(() => {
-      if (hasLoaded) {
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+      const badges = activeProfile?.badges ?? [];
+      const seen = seenBadgesRef.current;
+      if (seen.profileId === activeProfile?.id && badges.length > seen.count) {
+          setBadgeQueue(queue => [...queue, ...badges.slice(seen.count).map(b => b.badgeId)]);
       }
-  }, [progress, hasLoaded]);
+      seenBadgesRef.current = { profileId: activeProfile?.id, count: badges.length };
+  }, [activeProfile?.id, activeProfile?.badges]);
+
+  const celebratedBadge = badgeQueue.length > 0 ? getBadge(badgeQueue[0]) : undefined;
+
+  // Only lessons that reached their last question get a summary card
+  const finishedLesson = activeProfile?.sessions.find(s => s.id === finishedLessonId);
+  const lessonSummary = finishedLesson && activeProfile ? summarizeLesson(finishedLesson, activeProfile.evaluations) : null;
 
   // Callback to handle evaluation from AI
-  const handleEvaluation = useCallback((isCorrect: boolean, topic?: string) => {
-      if (isCorrect) {
-          setProgress(prev => {
-              const newTopics = topic && !prev.completedTopics.includes(topic) 
-                  ? [...prev.completedTopics, topic] 
-                  : prev.completedTopics;
-              
-              return {
-                  ...prev,
-                  stars: prev.stars + 1,
-                  completedTopics: newTopics
-              };
-          });
+  const handleEvaluation = useCallback((record: EvaluationRecord) => {
+      recordEvaluation(record);
+
+      if (!progress.adaptiveDifficulty) return;
+      recentAnswersRef.current.push(record.isCorrect);
+      const decision = getAdaptiveLevel(getLevelIds(curriculum), record.difficulty, recentAnswersRef.current);
+      if (decision) {
+          const change: LevelChange = {
+              id: createId(),
+              sessionId: record.sessionId,
+              timestamp: Date.now(),
+              from: record.difficulty,
+              to: decision.level,
+              accuracy: decision.accuracy
+          };
+          recentAnswersRef.current = [];
+          recordLevelChange(change);
+          updateDifficultyRef.current(change.to);
+          setLevelCelebration(change);
       }
-  }, []);
+  }, [recordEvaluation, recordLevelChange, progress.adaptiveDifficulty, curriculum]);
 
-  const { connectionState, connect, disconnect, isMimiSpeaking, volume } = useGeminiLive({
-      onEvaluation: handleEvaluation
+  // Alerts go to the parent's log; a paused class tells the child to fetch a grown-up
+  const handleSafetyAlert = useCallback((alert: SafetyAlert) => {
+      recordSafetyAlert(alert);
+      if (alert.action === 'pause') setIsSafetyPaused(true);
+  }, [recordSafetyAlert]);
+
+  const activeProfileId = activeProfile?.id;
+  const handleRecording = useCallback((recording: SessionRecording) => {
+      if (activeProfileId) addRecording(activeProfileId, recording);
+  }, [activeProfileId, addRecording]);
+
+  const handleSessionEnd = useCallback((session: SessionRecord) => {
+      recordSession(session);
+      if (session.lessonLength) setFinishedLessonId(session.id);
+  }, [recordSession]);
+
+  const { connectionState, connect, disconnect, updateDifficulty, windDown, startTalking, stopTalking, answerWithChoice, isMimiSpeaking, isChildSpeaking, visualAid, answerChoices, lessonProgress, mimiMouth, expression, volume } = useGeminiLive({
+      onEvaluation: handleEvaluation,
+      onSessionStart: recordSession,
+      onSessionEnd: handleSessionEnd,
+      onSessionUpdate: recordSession,
+      onTranscript: recordTranscript,
+      onSafetyAlert: handleSafetyAlert,
+      onRecording: handleRecording,
+      transport: LIVE_TRANSPORT
+  });
+  updateDifficultyRef.current = updateDifficulty;
+
+  // Screen-time limits are checked against the sessions recorded through connect/disconnect
+  const screenTime = activeProfile ? getScreenTimeStatus(activeProfile.limits, activeProfile.sessions) : null;
+  // Each grown-up action asks for the PIN again, so nothing stays unlocked for the child
+  const isLocked = hasParentPin();
+
+  const { minutesLeft } = useSessionLimit({
+      endsAt: sessionEndsAt,
+      isMimiSpeaking,
+      onWindDown: windDown,
+      onTimeUp: () => {
+          setSessionEndsAt(null);
+          disconnect();
+          setShowBreak(true);
+      }
   });
 
-  const handleStart = () => {
-    connect(progress.difficulty, selectedTopic);
+  // A class that ended any other way no longer needs its timer
+  useEffect(() => {
+      if (connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR) {
+          setSessionEndsAt(null);
+      }
+  }, [connectionState]);
+
+  // Runs a grown-up action, asking for the PIN first once one has been set
+  const withParentPin = (action: () => void, title?: string) => {
+      if (isLocked) {
+          setPinRequest({ title, onUnlock: action });
+      } else {
+          action();
+      }
+  };
+
+  // A parent override starts the class without any time limit
+  const handleStart = (override = false) => {
+    if (!activeProfile) return;
+    const status = getScreenTimeStatus(activeProfile.limits, activeProfile.sessions);
+    if (!status.allowed && !override) return;
+
+    recentAnswersRef.current = [];
+    setSessionEndsAt(!override && status.minutesLeft !== undefined ? Date.now() + status.minutesLeft * 60000 : null);
+    connect({
+        curriculum,
+        persona,
+        difficulty: currentLevel.id,
+        focusTopic: selectedTopic,
+        childName: activeProfile.name,
+        childAge: activeProfile.age,
+        language: activeProfile.language,
+        secondLanguage: activeProfile.secondLanguage,
+        safety: activeProfile.safety,
+        recordAudio: activeProfile.recording.enabled && isRecordingAvailable,
+        listeningMode: activeProfile.listeningMode,
+        tapToAnswer: activeProfile.tapToAnswer,
+        lessonLength: activeProfile.lessonLength
+    });
   };
 
   const handleStop = () => {
+    setSessionEndsAt(null);
     disconnect();
   };
 
   const handleDifficultyChange = (level: string) => {
-      setProgress(prev => ({ ...prev, difficulty: level }));
+      updateProgress(prev => ({ ...prev, difficulty: level }));
       setSelectedTopic(undefined); // Reset topic when difficulty changes
   };
 
+  // Moves a child to another pack, keeping their level if the new pack has it
+  const handleSelectPack = (profileId: string, packId: string) => {
+      const pack = getPack(packId);
+      updateProgress(prev => ({
+          ...prev,
+          curriculumId: pack.id,
+          difficulty: pack.levels.some(l => l.id === prev.difficulty) ? prev.difficulty : pack.levels[0].id
+      }), profileId);
+      if (profileId === activeProfile?.id) setSelectedTopic(undefined);
+  };
+
+  const toggleAdaptive = () => {
+      updateProgress(prev => ({ ...prev, adaptiveDifficulty: !prev.adaptiveDifficulty }));
+  };
+
+  const togglePushToTalk = () => {
+      if (!activeProfile) return;
+      updateProfile(activeProfile.id, { listeningMode: activeProfile.listeningMode === 'pushToTalk' ? 'alwaysOn' : 'pushToTalk' });
+  };
+
+  const toggleTapToAnswer = () => {
+      if (!activeProfile) return;
+      updateProfile(activeProfile.id, { tapToAnswer: !activeProfile.tapToAnswer });
+  };
+
   const toggleTopic = (topic: string) => {
       if (selectedTopic === topic) {
           setSelectedTopic(undefined);
@@ -86,10 +270,16 @@ const App: React.FC = () => {
       }
   };
 
+  const handleSelectProfile = (id: string) => {
+      selectProfile(id);
+      setSelectedTopic(undefined); // Topics depend on the child's difficulty
+  };
+
   // Prevent flash of default state before loading
   if (!hasLoaded) return null;
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div className="min-h-screen bg-gradient-to-b from-sky-100 to-indigo-50 flex flex-col items-center p-4 overflow-hidden relative">
       
       {/* Decorative Background Elements */}
@@ -112,8 +302,14 @@ const App: React.FC = () => {
             <span className="font-bold text-indigo-900">{progress.stars}</span>
         </div>
 
-        <div className={`px-3 py-1 rounded-full text-xs font-bold ${connectionState === ConnectionState.CONNECTED ? 'bg-green-100 text-green-700' : 'bg-gray-200 text-gray-500'}`}>
-          {connectionState === ConnectionState.CONNECTED ? 'ONLINE' : 'OFFLINE'}
+        <div className={`px-3 py-1 rounded-full text-xs font-bold ${
+            connectionState === ConnectionState.CONNECTED ? 'bg-green-100 text-green-700'
+            : connectionState === ConnectionState.RECONNECTING ? 'bg-yellow-100 text-yellow-700 animate-pulse'
+            : 'bg-gray-200 text-gray-500'
+        }`}>
+          {connectionState === ConnectionState.CONNECTED ? t('app.online')
+            : connectionState === ConnectionState.RECONNECTING ? t('app.reconnecting')
+            : t('app.offline')}
         </div>
       </header>
 
@@ -124,90 +320,184 @@ const App: React.FC = () => {
         {connectionState === ConnectionState.DISCONNECTED && (
           <div className="bg-white/80 backdrop-blur-sm p-6 sm:p-8 rounded-3xl shadow-xl text-center border-2 border-white w-full">
             <div className="mb-4 flex justify-center">
-                <div className="w-28 h-28 bg-sky-100 rounded-full flex items-center justify-center relative">
-                   <img 
-                    src="https://picsum.photos/200/200?random=1" 
-                    alt="Mimi Placeholder" 
-                    className="w-24 h-24 rounded-full object-cover border-4 border-white"
-                   />
+                <div className={`w-28 h-28 ${persona.theme.ripple} rounded-full flex items-center justify-center relative`}>
+                   <div className={`w-24 h-24 rounded-full overflow-hidden bg-white border-4 ${persona.theme.border}`}>
+                       {/* The face is drawn at 160px; shrink it to fit */}
+                       <div className="origin-top-left" style={{ transform: 'scale(0.55)' }}>
+                           <PersonaFace theme={persona.theme} />
+                       </div>
+                   </div>
                 </div>
             </div>
-            <h2 className="text-2xl font-bold text-gray-800 mb-2">Hi! I'm Mimi.</h2>
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">
+                {activeProfile ? t('app.greeting', { name: activeProfile.name, teacher }) : t('app.greetingNoName', { teacher })}
+            </h2>
             <p className="text-gray-600 mb-6 leading-relaxed text-sm sm:text-base">
-              Welcome back! You have <b>{progress.stars} stars</b>. <br/> What do you want to learn?
+              {activeProfile
+                ? <>{i18n.rich('app.welcomeBack', { stars: <b>{t('app.stars', { count: progress.stars })}</b> })} <br/> {t('app.whatToLearn')}</>
+                : t('app.askName')}
             </p>
 
+            {/* Profile Picker */}
+            <ProfilePicker
+                profiles={profiles}
+                activeProfileId={activeProfile?.id}
+                onSelect={handleSelectProfile}
+                onCreate={details => withParentPin(() => createProfile(details), t('pin.addChildTitle'))}
+                onUpdate={updateProfile}
+                onDelete={id => withParentPin(() => deleteProfile(id), t('pin.deleteChildTitle'))}
+            />
+
+            {/* Teacher Picker */}
+            {activeProfile && (
+                <PersonaPicker
+                    personas={PERSONAS}
+                    selectedId={persona.id}
+                    onSelect={personaId => updateProfile(activeProfile.id, { personaId })}
+                />
+            )}
+
             {/* Difficulty Selector */}
             <div className="mb-4">
-                <label className="block text-indigo-800 text-xs font-bold mb-2 uppercase tracking-wide">Age Level</label>
-                <div className="grid grid-cols-3 gap-2">
-                    {['Easy', 'Medium', 'Hard'].map((level) => (
+                <label className="block text-indigo-800 text-xs font-bold mb-2 uppercase tracking-wide" title={isLocked ? t('app.askGrownUp') : undefined}>
+                    {t('app.ageLevel')}
+                    {isLocked && <Lock size={10} className="inline ml-1 -mt-0.5" aria-label={t('app.askGrownUp')} />}
+                </label>
+                <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${Math.min(curriculum.levels.length, 4)}, minmax(0, 1fr))` }}>
+                    {curriculum.levels.map((level) => (
                         <button
-                            key={level}
-                            onClick={() => handleDifficultyChange(level)}
+                            key={level.id}
+                            onClick={() => withParentPin(() => handleDifficultyChange(level.id))}
                             className={`py-2 px-1 rounded-xl text-sm font-bold transition-all duration-200 border-2 ${
-                                progress.difficulty === level 
+                                currentLevel.id === level.id 
                                 ? 'bg-indigo-500 text-white border-indigo-500 shadow-md transform scale-105' 
                                 : 'bg-white text-indigo-400 border-indigo-100 hover:border-indigo-300'
                             }`}
                         >
-                            {level}
+                            {getLocalizedName(level, language)}
                         </button>
                     ))}
                 </div>
+                <button
+                    onClick={() => withParentPin(toggleAdaptive)}
+                    className={`mt-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-bold border transition-all ${
+                        progress.adaptiveDifficulty
+                        ? 'bg-yellow-100 text-yellow-700 border-yellow-300'
+                        : 'bg-white text-gray-400 border-gray-200 hover:border-yellow-200'
+                    }`}
+                >
+                    <Sparkles size={12} className="mr-1" />
+                    {t('app.adaptive', { teacher, state: progress.adaptiveDifficulty ? t('app.on') : t('app.off') })}
+                </button>
+                <button
+                    onClick={() => withParentPin(togglePushToTalk)}
+                    className={`mt-2 ml-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-bold border transition-all ${
+                        isPushToTalk
+                        ? 'bg-indigo-100 text-indigo-700 border-indigo-300'
+                        : 'bg-white text-gray-400 border-gray-200 hover:border-indigo-200'
+                    }`}
+                >
+                    <Mic size={12} className="mr-1" />
+                    {t('app.pushToTalk', { state: isPushToTalk ? t('app.on') : t('app.off') })}
+                </button>
+                <button
+                    onClick={() => withParentPin(toggleTapToAnswer)}
+                    className={`mt-2 ml-2 inline-flex items-center px-3 py-1 rounded-full text-xs font-bold border transition-all ${
+                        activeProfile?.tapToAnswer
+                        ? 'bg-pink-100 text-pink-700 border-pink-300'
+                        : 'bg-white text-gray-400 border-gray-200 hover:border-pink-200'
+                    }`}
+                >
+                    <Hand size={12} className="mr-1" />
+                    {t('app.tapToAnswer', { state: activeProfile?.tapToAnswer ? t('app.on') : t('app.off') })}
+                </button>
             </div>
 
             {/* Topic Selector */}
             <div className="mb-8">
-                 <label className="block text-indigo-800 text-xs font-bold mb-2 uppercase tracking-wide">Choose a Topic (Optional)</label>
+                 <label className="block text-indigo-800 text-xs font-bold mb-2 uppercase tracking-wide" title={isLocked ? t('app.askGrownUp') : undefined}>
+                     {t('app.chooseTopic')}
+                     {isLocked && <Lock size={10} className="inline ml-1 -mt-0.5" aria-label={t('app.askGrownUp')} />}
+                 </label>
                  <div className="flex flex-wrap gap-2 justify-center">
-                    {TOPICS_BY_DIFFICULTY[progress.difficulty]?.map(topic => (
+                    {currentLevel.topics.map(topic => (
                         <button
-                            key={topic}
-                            onClick={() => toggleTopic(topic)}
+                            key={topic.id}
+                            onClick={() => withParentPin(() => toggleTopic(topic.name))}
+                            title={topic.description}
                             className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${
-                                selectedTopic === topic 
+                                selectedTopic === topic.name 
                                 ? 'bg-pink-400 text-white border-pink-400 shadow-sm scale-105' 
                                 : 'bg-white text-gray-500 border-gray-200 hover:border-pink-200'
                             }`}
                         >
-                            {topic}
+                            {getLocalizedName(topic, language)}
                         </button>
                     ))}
                     <button
-                        onClick={() => setSelectedTopic(undefined)}
+                        onClick={() => withParentPin(() => setSelectedTopic(undefined))}
                         className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${
                             selectedTopic === undefined
                             ? 'bg-pink-400 text-white border-pink-400 shadow-sm'
                             : 'bg-white text-gray-500 border-gray-200 hover:border-pink-200'
                         }`}
                     >
-                        Mix
+                        {t('app.mix')}
                     </button>
                  </div>
             </div>
 
-            <button
-              onClick={handleStart}
-              className="group relative inline-flex items-center justify-center px-8 py-4 font-bold text-white transition-all duration-200 bg-indigo-500 rounded-full hover:bg-indigo-600 hover:shadow-lg hover:-translate-y-1 focus:outline-none ring-offset-2 focus:ring-2 ring-indigo-400 w-full"
-            >
-              <PlayCircle className="mr-2 group-hover:animate-pulse" />
-              Start Class
-            </button>
+            {/* Lesson or free play */}
+            <div className="mb-8">
+                 <label className="block text-indigo-800 text-xs font-bold mb-2 uppercase tracking-wide" title={isLocked ? t('app.askGrownUp') : undefined}>
+                     {t('app.classType')}
+                     {isLocked && <Lock size={10} className="inline ml-1 -mt-0.5" aria-label={t('app.askGrownUp')} />}
+                 </label>
+                 <div className="flex flex-wrap gap-2 justify-center">
+                    {[undefined, ...LESSON_LENGTHS].map(length => (
+                        <button
+                            key={length ?? 'free'}
+                            onClick={() => withParentPin(() => activeProfile && updateProfile(activeProfile.id, { lessonLength: length }))}
+                            className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${
+                                activeProfile?.lessonLength === length
+                                ? 'bg-green-400 text-white border-green-400 shadow-sm scale-105'
+                                : 'bg-white text-gray-500 border-gray-200 hover:border-green-200'
+                            }`}
+                        >
+                            {length ? t('app.lessonQuestions', { count: length }) : t('app.freePlay')}
+                        </button>
+                    ))}
+                 </div>
+            </div>
+
+            {screenTime && !screenTime.allowed ? (
+                <div className="bg-indigo-50 rounded-2xl p-4 border-2 border-indigo-100">
+                    <Moon size={28} className="mx-auto text-indigo-400 mb-2" />
+                    <p className="text-indigo-900 font-bold text-sm mb-3">
+                        {screenTime.reason === 'daily' ? t('app.dailyLimitReached') : t('app.outsideWindow', { teacher })}
+                    </p>
+                    <button
+                        onClick={() => withParentPin(() => handleStart(true), t('pin.overrideTitle'))}
+                        className="inline-flex items-center text-xs font-bold text-indigo-400 hover:text-indigo-600"
+                    >
+                        <Lock size={12} className="mr-1" /> {t('app.parentOverride')}
+                    </button>
+                </div>
+            ) : (
+                <button
+                  onClick={() => handleStart()}
+                  disabled={!activeProfile}
+                  className="group relative inline-flex items-center justify-center px-8 py-4 font-bold text-white transition-all duration-200 bg-indigo-500 rounded-full hover:bg-indigo-600 hover:shadow-lg hover:-translate-y-1 focus:outline-none ring-offset-2 focus:ring-2 ring-indigo-400 w-full disabled:opacity-50 disabled:pointer-events-none"
+                >
+                  <PlayCircle className="mr-2 group-hover:animate-pulse" />
+                  {t('app.startClass')}
+                </button>
+            )}
             
              {/* Progress List Mini */}
-             {progress.completedTopics.length > 0 && (
-                <div className="mt-6 border-t pt-4 border-gray-100">
-                    <p className="text-xs text-gray-400 uppercase font-bold tracking-wider mb-2">Things I know</p>
-                    <div className="flex flex-wrap justify-center gap-2">
-                        {progress.completedTopics.slice(-5).map(topic => (
-                            <span key={topic} className="bg-yellow-100 text-yellow-700 text-xs px-2 py-1 rounded-md border border-yellow-200">
-                                {topic}
-                            </span>
-                        ))}
-                    </div>
-                </div>
-             )}
+             <MasteryList mastery={progress.mastery} formatTopic={formatTopic} />
+
+             {activeProfile && <BadgeGallery badges={BADGES} earned={activeProfile.badges} history={activeProfile} />}
 
           </div>
         )}
@@ -215,8 +505,34 @@ const App: React.FC = () => {
         {/* Loading State */}
         {connectionState === ConnectionState.CONNECTING && (
           <div className="flex flex-col items-center text-center">
-            <Loader2 size={64} className="text-indigo-400 animate-spin mb-4" />
-            <p className="text-xl text-indigo-800 font-medium">Waking up Mimi...</p>
+            <div className={`w-24 h-24 mb-4 rounded-full overflow-hidden bg-white border-4 ${persona.theme.border}`}>
+                {/* The face thinks while the class connects */}
+                <div className="origin-top-left" style={{ transform: 'scale(0.55)' }}>
+                    <PersonaFace theme={persona.theme} expression={expression} />
+                </div>
+            </div>
+            <p className="text-xl text-indigo-800 font-medium">{t('app.wakingUp', { teacher })}</p>
+          </div>
+        )}
+
+        {/* Reconnecting State */}
+        {connectionState === ConnectionState.RECONNECTING && (
+          <div className="flex flex-col items-center text-center">
+            <div className={`w-24 h-24 mb-4 rounded-full overflow-hidden bg-white border-4 ${persona.theme.border}`}>
+                {/* The face thinks while the class connects */}
+                <div className="origin-top-left" style={{ transform: 'scale(0.55)' }}>
+                    <PersonaFace theme={persona.theme} expression={expression} />
+                </div>
+            </div>
+            <p className="text-xl text-indigo-800 font-medium">{t('app.findingTeacher', { teacher })}</p>
+            <p className="text-indigo-900/60 text-sm mt-1 mb-6">{t('app.stayThere', { teacher })}</p>
+            <button
+              onClick={handleStop}
+              className="inline-flex items-center px-6 py-3 bg-red-100 text-red-600 rounded-full font-bold hover:bg-red-200 transition-colors shadow-sm"
+            >
+              <Power size={20} className="mr-2" />
+              {t('app.stopClass')}
+            </button>
           </div>
         )}
 
@@ -228,37 +544,60 @@ const App: React.FC = () => {
                 {/* Topic Bubble */}
                 {selectedTopic && (
                     <div className="absolute -top-4 left-0 bg-pink-400 shadow-md rounded-full px-3 py-1 text-xs text-white font-bold border border-pink-200">
-                         Topic: {selectedTopic}
+                         {t('app.topic', { topic: formatTopic(selectedTopic) })}
                     </div>
                 )}
                 {/* Last Correct Topic */}
-                {progress.completedTopics.length > 0 && (
+                {lastTopic && (
                     <div className="absolute -top-4 right-0 bg-white shadow-md rounded-full px-3 py-1 text-xs text-indigo-500 font-bold border border-indigo-100 animate-bounce" style={{animationDuration: '3s'}}>
-                         Last: {progress.completedTopics[progress.completedTopics.length - 1]}
+                         {t('app.lastTopic', { topic: formatTopic(lastTopic) })}
                     </div>
                 )}
                 
                 <Visualizer 
+                    persona={persona}
                     isActive={true} 
                     isSpeaking={isMimiSpeaking} 
                     volume={volume} 
+                    isChildSpeaking={isChildSpeaking}
+                    listeningMode={activeProfile?.listeningMode}
+                    mouth={mimiMouth}
+                    expression={expression}
                 />
             </div>
 
+            {/* Picture for the current question */}
+            {visualAid && <VisualAidDisplay aid={visualAid} />}
+
+            {/* Answers to tap, in tap-to-answer mode */}
+            {answerChoices && <AnswerChoices choices={answerChoices} onChoose={answerWithChoice} />}
+
             <div className="w-full max-w-xs text-center space-y-4">
+                {lessonProgress && <LessonProgressBar progress={lessonProgress} />}
                 <div className="bg-indigo-100/50 px-4 py-2 rounded-full inline-block">
-                     <p className="text-indigo-900/80 text-xs font-bold tracking-wide uppercase">Level: {progress.difficulty}</p>
+                     <p className="text-indigo-900/80 text-xs font-bold tracking-wide uppercase">{t('app.level', { level: getLocalizedName(currentLevel, language) })}</p>
                 </div>
+                {minutesLeft !== null && (
+                    <p className="flex items-center justify-center text-indigo-900/60 text-xs font-bold">
+                        <Timer size={12} className="mr-1" /> {t('app.minutesLeft', { minutes: Math.ceil(minutesLeft) })}
+                    </p>
+                )}
+                {activeProfile?.recording.enabled && isRecordingAvailable && (
+                    <p className="flex items-center justify-center text-red-500/80 text-xs font-bold">
+                        <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse mr-1.5" /> {t('app.recording')}
+                    </p>
+                )}
                 <p className="text-indigo-900/60 text-sm font-medium">
-                    {isMimiSpeaking ? "Listen carefully..." : "Your turn to speak!"}
+                    {isMimiSpeaking ? t('app.listen') : isChildSpeaking ? t('app.keepGoing') : t('app.yourTurn')}
                 </p>
+                {isPushToTalk && <TalkButton isHeld={isChildSpeaking} onStart={startTalking} onStop={stopTalking} />}
 
                 <button
                 onClick={handleStop}
                 className="inline-flex items-center px-6 py-3 bg-red-100 text-red-600 rounded-full font-bold hover:bg-red-200 transition-colors shadow-sm"
                 >
                 <Power size={20} className="mr-2" />
-                Stop Class
+                {t('app.stopClass')}
                 </button>
             </div>
           </div>
@@ -267,8 +606,8 @@ const App: React.FC = () => {
         {/* Error State */}
         {connectionState === ConnectionState.ERROR && (
              <div className="bg-red-50 p-6 rounded-2xl text-center max-w-xs border border-red-100">
-             <h3 className="text-red-800 font-bold text-lg mb-2">Oh no!</h3>
-             <p className="text-red-600 mb-4">Mimi couldn't connect. Maybe check your internet?</p>
+             <h3 className="text-red-800 font-bold text-lg mb-2">{t('app.ohNo')}</h3>
+             <p className="text-red-600 mb-4">{t('app.couldNotConnect', { teacher })}</p>
              <button
                onClick={() => {
                    disconnect(); // Reset state
@@ -276,17 +615,84 @@ const App: React.FC = () => {
                }}
                className="bg-red-200 text-red-800 px-4 py-2 rounded-lg font-bold hover:bg-red-300"
              >
-               Try Again
+               {t('app.tryAgain')}
              </button>
            </div>
         )}
 
       </main>
 
+      {levelCelebration && (
+          <LevelCelebration
+              change={levelCelebration}
+              promoted={isPromotion(levelIds, levelCelebration.from, levelCelebration.to)}
+              levelName={getLocalizedName(getCurriculumLevel(curriculum, levelCelebration.to), language)}
+              onDone={() => setLevelCelebration(null)}
+          />
+      )}
+
+      {!levelCelebration && celebratedBadge && (
+          <BadgeCelebration badge={celebratedBadge} onDone={() => setBadgeQueue(queue => queue.slice(1))} />
+      )}
+
+      {!levelCelebration && !celebratedBadge && finishedLesson && lessonSummary && isLessonComplete(finishedLesson, lessonSummary) && (
+          <LessonSummaryCard summary={lessonSummary} formatTopic={formatTopic} onDone={() => setFinishedLessonId(null)} />
+      )}
+
+      {showBreak && <BreakNotice title={t('app.breakTime')} message={t('app.sessionOver')} onDone={() => setShowBreak(false)} />}
+      {isSafetyPaused && <BreakNotice title={t('app.classPaused')} message={t('app.askGrownUpToCheck')} onDone={() => setIsSafetyPaused(false)} />}
+
+      {pinRequest && (
+          <PinGate
+              title={pinRequest.title}
+              onUnlock={() => {
+                  setPinRequest(null);
+                  pinRequest.onUnlock();
+              }}
+              onCancel={() => setPinRequest(null)}
+          />
+      )}
+      {parentArea === 'pin' && (
+          <PinGate
+              onUnlock={() => setParentArea('open')}
+              onCancel={() => setParentArea('closed')}
+          />
+      )}
+      {parentArea === 'open' && (
+          <ParentDashboard
+              profiles={profiles}
+              initialProfileId={activeProfile?.id}
+              packs={packs}
+              importedPackIds={importedPacks.map(p => p.id)}
+              onSelectPack={handleSelectPack}
+              onImportPack={importPack}
+              onRemovePack={removePack}
+              onUpdateLimits={(profileId, limits) => updateProfile(profileId, { limits })}
+              onUpdateSafety={(profileId, safety) => updateProfile(profileId, { safety })}
+              onUpdateRecording={(profileId, recording) => updateProfile(profileId, { recording })}
+              recordings={recordings}
+              isRecordingAvailable={isRecordingAvailable}
+              onDownloadRecording={downloadRecording}
+              onDeleteRecording={deleteRecording}
+              onUpdateSounds={(profileId, sounds) => updateProfile(profileId, { sounds })}
+              onImportProfile={importProfile}
+              onClose={() => setParentArea('closed')}
+          />
+      )}
+
       <footer className="w-full text-center py-4 text-indigo-200 text-xs">
-         <p>Safe & Friendly AI Learning</p>
+         <p>{t('app.footer')}</p>
+         {connectionState === ConnectionState.DISCONNECTED && (
+             <button
+                 onClick={() => setParentArea('pin')}
+                 className="mt-2 inline-flex items-center text-indigo-300 hover:text-indigo-500 font-bold"
+             >
+                 <Lock size={12} className="mr-1" /> {t('app.parents')}
+             </button>
+         )}
       </footer>
     </div>
+    </I18nContext.Provider>
   );
 };
 
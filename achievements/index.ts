@@ -0,0 +1,88 @@
+import { Badge } from '../types';
+
+/**
+ * Badges kids can earn. Add an entry here to create a new badge; the rule
+ * kinds are understood by `utils/achievements.ts`.
+ */
+export const BADGES: Badge[] = [
+  {
+    id: 'first-star',
+    icon: '⭐',
+    name: { en: 'First Star', es: 'Primera estrella', hi: 'पहला सितारा' },
+    description: { en: 'Get your first answer right', es: 'Acierta tu primera respuesta', hi: 'अपना पहला सही जवाब दो' },
+    rule: { kind: 'correctTotal', count: 1 },
+  },
+  {
+    id: 'streak-5',
+    icon: '🔥',
+    name: { en: '5 in a Row', es: '5 seguidas', hi: 'लगातार 5' },
+    description: { en: 'Get 5 answers right in a row', es: 'Acierta 5 respuestas seguidas', hi: 'लगातार 5 सही जवाब दो' },
+    rule: { kind: 'streak', count: 5 },
+  },
+  {
+    id: 'streak-10',
+    icon: '⚡',
+    name: { en: '10 in a Row', es: '10 seguidas', hi: 'लगातार 10' },
+    description: { en: 'Get 10 answers right in a row', es: 'Acierta 10 respuestas seguidas', hi: 'लगातार 10 सही जवाब दो' },
+    rule: { kind: 'streak', count: 10 },
+  },
+  {
+    id: 'stars-50',
+    icon: '🌟',
+    name: { en: 'Star Collector', es: 'Coleccionista de estrellas', hi: 'सितारे जमा करने वाले' },
+    description: { en: 'Collect 50 stars', es: 'Consigue 50 estrellas', hi: '50 सितारे जमा करो' },
+    rule: { kind: 'correctTotal', count: 50 },
+  },
+  {
+    id: 'mastered-colors',
+    icon: '🎨',
+    name: { en: 'Mastered Colors', es: 'Experto en colores', hi: 'रंगों के उस्ताद' },
+    description: { en: 'Know all about colors', es: 'Domina los colores', hi: 'रंगों के बारे में सब कुछ जानो' },
+    rule: { kind: 'mastered', topic: 'Colors' },
+  },
+  {
+    id: 'mastered-animals',
+    icon: '🦁',
+    name: { en: 'Mastered Animals', es: 'Experto en animales', hi: 'जानवरों के उस्ताद' },
+    description: { en: 'Know all about animals', es: 'Domina los animales', hi: 'जानवरों के बारे में सब कुछ जानो' },
+    rule: { kind: 'mastered', topic: 'Animals' },
+  },
+  {
+    id: 'mastered-numbers',
+    icon: '🔢',
+    name: { en: 'Mastered Numbers', es: 'Experto en números', hi: 'गिनती के उस्ताद' },
+    description: { en: 'Know all about numbers', es: 'Domina los números', hi: 'गिनती के बारे में सब कुछ जानो' },
+    rule: { kind: 'mastered', topic: 'Numbers' },
+  },
+  {
+    id: 'mastered-3',
+    icon: '🏆',
+    name: { en: 'Super Learner', es: 'Superalumno', hi: 'सुपर सीखने वाले' },
+    description: { en: 'Master 3 different topics', es: 'Domina 3 temas distintos', hi: '3 अलग विषयों में उस्ताद बनो' },
+    rule: { kind: 'masteredCount', count: 3 },
+  },
+  {
+    id: 'daily-3',
+    icon: '📅',
+    name: { en: '3-Day Streak', es: 'Racha de 3 días', hi: '3 दिन लगातार' },
+    description: { en: 'Have a class 3 days in a row', es: 'Ten clase 3 días seguidos', hi: 'लगातार 3 दिन क्लास करो' },
+    rule: { kind: 'dailyStreak', days: 3 },
+  },
+  {
+    id: 'daily-7',
+    icon: '🗓️',
+    name: { en: 'Week Streak', es: 'Racha de una semana', hi: 'पूरा हफ़्ता' },
+    description: { en: 'Have a class 7 days in a row', es: 'Ten clase 7 días seguidos', hi: 'लगातार 7 दिन क्लास करो' },
+    rule: { kind: 'dailyStreak', days: 7 },
+  },
+  {
+    id: 'sessions-10',
+    icon: '🎒',
+    name: { en: '10 Classes', es: '10 clases', hi: '10 क्लास' },
+    description: { en: 'Finish 10 classes', es: 'Termina 10 clases', hi: '10 क्लास पूरी करो' },
+    rule: { kind: 'sessions', count: 10 },
+  },
+];
+
+export const getBadge = (id: string): Badge | undefined =>
+  BADGES.find(b => b.id === id);
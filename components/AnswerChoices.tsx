@@ -0,0 +1,33 @@
+import React from 'react';
+import { AnswerChoice } from '../types';
+import { COLORS } from '../utils/visualAids';
+
+interface AnswerChoicesProps {
+  choices: AnswerChoice[];
+  onChoose: (choice: AnswerChoice) => void;
+}
+
+const BUTTON_COLORS = ['bg-sky-100 border-sky-300', 'bg-pink-100 border-pink-300', 'bg-lime-100 border-lime-300', 'bg-amber-100 border-amber-300'];
+
+/**
+ * Big answer buttons for children who tap instead of speaking.
+ */
+const AnswerChoices: React.FC<AnswerChoicesProps> = ({ choices, onChoose }) => (
+  <div className={`grid gap-3 w-full max-w-md ${choices.length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+    {choices.map((choice, i) => (
+      <button
+        key={choice.text}
+        onClick={() => onChoose(choice)}
+        className={`flex flex-col items-center justify-center min-h-28 p-3 rounded-3xl border-4 shadow-md text-indigo-900 font-bold text-lg active:scale-95 hover:scale-105 transition-transform ${BUTTON_COLORS[i % BUTTON_COLORS.length]}`}
+      >
+        {choice.color && (
+          <span className="w-12 h-12 rounded-full border-2 border-indigo-900/20 mb-1" style={{ backgroundColor: COLORS[choice.color] }} />
+        )}
+        {choice.emoji && <span className="text-5xl leading-none mb-1" aria-hidden="true">{choice.emoji}</span>}
+        {choice.text}
+      </button>
+    ))}
+  </div>
+);
+
+export default AnswerChoices;
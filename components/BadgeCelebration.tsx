@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { Badge } from '../types';
+import { useI18n } from '../i18n';
+import { soundEngine } from '../utils/soundEffects';
+
+interface BadgeCelebrationProps {
+  badge: Badge;
+  onDone: () => void;
+}
+
+const BadgeCelebration: React.FC<BadgeCelebrationProps> = ({ badge, onDone }) => {
+  const { t, language } = useI18n();
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  // Each badge gets its own fanfare, then the lesson carries on
+  useEffect(() => {
+    soundEngine.play('badge');
+    const timer = setTimeout(() => onDoneRef.current(), 4000);
+    return () => clearTimeout(timer);
+  }, [badge]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/20 backdrop-blur-sm p-4"
+      onClick={onDone}
+    >
+      <div className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-300 p-8 text-center max-w-xs">
+        <div className="relative flex justify-center mb-3">
+          <span className="absolute w-24 h-24 rounded-full bg-yellow-200 animate-ping opacity-60" />
+          <span className="relative w-24 h-24 flex items-center justify-center rounded-full bg-yellow-100 text-6xl animate-bounce" role="img" aria-hidden="true">
+            {badge.icon}
+          </span>
+        </div>
+        <p className="text-xs uppercase font-bold tracking-wider text-yellow-500 mb-1">{t('badges.unlocked')}</p>
+        <h3 className="text-2xl font-bold text-indigo-900 mb-1">{badge.name[language]}</h3>
+        <p className="text-indigo-700/80 font-medium">{badge.description[language]}</p>
+      </div>
+    </div>
+  );
+};
+
+export default BadgeCelebration;
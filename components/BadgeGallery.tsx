@@ -0,0 +1,50 @@
+import React from 'react';
+import { Badge, EarnedBadge } from '../types';
+import { useI18n } from '../i18n';
+import { BadgeHistory, getBadgeProgress } from '../utils/achievements';
+
+interface BadgeGalleryProps {
+  badges: Badge[];
+  earned: EarnedBadge[];
+  history: BadgeHistory;
+}
+
+const BadgeGallery: React.FC<BadgeGalleryProps> = ({ badges, earned, history }) => {
+  const { t, language } = useI18n();
+  const earnedIds = new Set(earned.map(b => b.badgeId));
+
+  return (
+    <div className="mt-6 border-t pt-4 border-gray-100">
+      <p className="text-xs text-gray-400 uppercase font-bold tracking-wider mb-2">
+        {t('badges.heading', { earned: badges.filter(b => earnedIds.has(b.id)).length, total: badges.length })}
+      </p>
+      <div className="flex flex-wrap justify-center gap-2">
+        {badges.map(badge => {
+          const isEarned = earnedIds.has(badge.id);
+          const { current, target } = getBadgeProgress(badge.rule, history);
+          const detail = isEarned
+            ? badge.description[language]
+            : `${badge.description[language]} (${t('badges.progress', { current: Math.min(current, target), target })})`;
+          return (
+            <div
+              key={badge.id}
+              title={`${badge.name[language]}: ${detail}`}
+              className={`relative w-11 h-11 flex items-center justify-center rounded-xl border text-2xl ${
+                isEarned ? 'bg-yellow-50 border-yellow-200' : 'bg-gray-50 border-gray-100 grayscale opacity-40'
+              }`}
+            >
+              <span aria-label={badge.name[language]} role="img">{badge.icon}</span>
+              {!isEarned && target > 1 && (
+                <span className="absolute bottom-1 left-1.5 right-1.5 h-1 rounded-full bg-gray-200 overflow-hidden">
+                  <span className="block h-full bg-indigo-400" style={{ width: `${Math.min(100, (current / target) * 100)}%` }} />
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BadgeGallery;
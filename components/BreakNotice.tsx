@@ -0,0 +1,35 @@
+import React from 'react';
+import { Moon } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+interface BreakNoticeProps {
+  title: string;
+  message: string;
+  onDone: () => void;
+}
+
+/**
+ * Shown when a class ends on its own, because time ran out or it was paused for safety.
+ */
+const BreakNotice: React.FC<BreakNoticeProps> = ({ title, message, onDone }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/20 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-3xl shadow-2xl border-4 border-indigo-200 p-8 text-center max-w-xs">
+        <div className="flex justify-center mb-3">
+          <div className="p-4 rounded-full bg-indigo-100 text-indigo-500">
+            <Moon size={40} />
+          </div>
+        </div>
+        <h3 className="text-2xl font-bold text-indigo-900 mb-1">{title}</h3>
+        <p className="text-indigo-700/80 font-medium mb-5">{message}</p>
+        <button onClick={onDone} className="w-full py-2 rounded-full bg-indigo-500 text-white font-bold hover:bg-indigo-600">
+          {t('app.okay')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BreakNotice;
@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Trash2, Check } from 'lucide-react';
+import { CurriculumPack } from '../types';
+import { useI18n } from '../i18n';
+
+interface CurriculumManagerProps {
+  packs: CurriculumPack[];
+  importedPackIds: string[];
+  selectedPackId: string;
+  childName: string;
+  onSelect: (packId: string) => void;
+  onImport: (json: string) => string[];
+  onRemove: (packId: string) => void;
+}
+
+const CurriculumManager: React.FC<CurriculumManagerProps> = ({ packs, importedPackIds, selectedPackId, childName, onSelect, onImport, onRemove }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [imported, setImported] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again after fixing it
+    if (!file) return;
+    const problems = onImport(await file.text());
+    setErrors(problems);
+    setImported(problems.length === 0 ? file.name : null);
+  };
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 mb-2">{t('curriculum.intro', { name: childName })}</p>
+      <div className="space-y-2 mb-3">
+        {packs.map(pack => {
+          const isSelected = pack.id === selectedPackId;
+          return (
+            <div
+              key={pack.id}
+              className={`flex items-center justify-between rounded-xl border-2 px-3 py-2 ${isSelected ? 'border-indigo-400 bg-indigo-50' : 'border-gray-100'}`}
+            >
+              <button onClick={() => onSelect(pack.id)} className="flex-1 text-left">
+                <p className="text-sm font-bold text-gray-700 flex items-center">
+                  {isSelected && <Check size={14} className="mr-1 text-indigo-500" />}
+                  {pack.name}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {t('curriculum.summary', { levels: pack.levels.length, topics: pack.levels.reduce((n, l) => n + l.topics.length, 0) })}
+                  {pack.author ? ` - ${t('curriculum.by', { author: pack.author })}` : ''}
+                </p>
+              </button>
+              {importedPackIds.includes(pack.id) && (
+                <button
+                  onClick={() => {
+                    if (window.confirm(t('curriculum.confirmRemove', { name: pack.name }))) onRemove(pack.id);
+                  }}
+                  className="p-2 text-gray-300 hover:text-red-500"
+                  aria-label={t('curriculum.remove', { name: pack.name })}
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-bold bg-white text-indigo-500 border-2 border-indigo-100 hover:border-indigo-300"
+      >
+        <Upload size={12} className="mr-1.5" /> {t('curriculum.import')}
+      </button>
+
+      {imported && <p className="text-xs text-green-600 mt-2">{t('curriculum.imported', { file: imported })}</p>}
+      {errors.length > 0 && (
+        <div className="mt-2 bg-red-50 border border-red-100 rounded-xl p-2 text-xs text-red-600">
+          <p className="font-bold mb-1">{t('curriculum.importFailed')}</p>
+          <ul className="list-disc pl-4 space-y-0.5">
+            {errors.slice(0, 8).map(error => <li key={error}>{error}</li>)}
+          </ul>
+          {errors.length > 8 && <p className="mt-1">{t('curriculum.moreErrors', { count: errors.length - 8 })}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CurriculumManager;
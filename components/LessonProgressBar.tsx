@@ -0,0 +1,28 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+import { LessonProgress } from '../hooks/useGeminiLive';
+
+/**
+ * How far the child is through a lesson, moved on by each evaluated answer.
+ */
+const LessonProgressBar: React.FC<{ progress: LessonProgress }> = ({ progress }) => {
+  const { t } = useI18n();
+  const current = Math.min(progress.answered + 1, progress.total);
+
+  return (
+    <div className="w-full">
+      <p className="text-indigo-900/60 text-xs font-bold mb-1">{t('lesson.progress', { current, total: progress.total })}</p>
+      <div
+        className="h-3 rounded-full bg-indigo-100 overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={progress.total}
+        aria-valuenow={progress.answered}
+      >
+        <div className="h-full rounded-full bg-green-400 transition-all duration-500" style={{ width: `${(progress.answered / progress.total) * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default LessonProgressBar;
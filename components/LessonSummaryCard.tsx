@@ -0,0 +1,54 @@
+import React from 'react';
+import { Star, Trophy } from 'lucide-react';
+import { useI18n } from '../i18n';
+import { LessonSummary } from '../utils/lesson';
+
+interface LessonSummaryCardProps {
+  summary: LessonSummary;
+  formatTopic: (topic: string) => string;
+  onDone: () => void;
+}
+
+/**
+ * Shown when a lesson's last question is done: the score, the topics and the stars earned.
+ */
+const LessonSummaryCard: React.FC<LessonSummaryCardProps> = ({ summary, formatTopic, onDone }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/20 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-3xl shadow-2xl border-4 border-indigo-200 p-8 text-center max-w-sm w-full">
+        <div className="flex justify-center mb-3">
+          <div className="p-4 rounded-full bg-yellow-100 text-yellow-500">
+            <Trophy size={40} />
+          </div>
+        </div>
+        <h3 className="text-2xl font-bold text-indigo-900 mb-1">{t('lesson.complete')}</h3>
+        <p className="text-indigo-700/80 font-medium mb-4">{t('lesson.score', { correct: summary.correct, total: summary.answered })}</p>
+
+        <div className="flex items-center justify-center text-yellow-500 font-bold text-xl mb-4">
+          <Star size={24} className="fill-yellow-400 mr-1" /> {t('lesson.stars', { count: summary.stars })}
+        </div>
+
+        {summary.topics.length > 0 && (
+          <div className="mb-5">
+            <p className="text-xs font-bold text-indigo-800 uppercase tracking-wide mb-2">{t('lesson.topics')}</p>
+            <div className="flex flex-wrap gap-1.5 justify-center">
+              {summary.topics.map(topic => (
+                <span key={topic} className="px-2.5 py-1 rounded-full text-xs font-bold bg-pink-100 text-pink-600">
+                  {formatTopic(topic)}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <button onClick={onDone} className="px-6 py-2 rounded-full bg-indigo-500 text-white font-bold hover:bg-indigo-600">
+          {t('app.okay')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LessonSummaryCard;
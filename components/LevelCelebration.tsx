@@ -0,0 +1,48 @@
+import React, { useEffect, useRef } from 'react';
+import { Rocket, Sparkles } from 'lucide-react';
+import { LevelChange } from '../types';
+import { useI18n } from '../i18n';
+import { soundEngine } from '../utils/soundEffects';
+
+interface LevelCelebrationProps {
+  change: LevelChange;
+  promoted: boolean;
+  levelName: string;
+  onDone: () => void;
+}
+
+const LevelCelebration: React.FC<LevelCelebrationProps> = ({ change, promoted, levelName, onDone }) => {
+  const { t, rich } = useI18n();
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  // Moving up gets a fanfare; dismiss automatically so the lesson carries on
+  useEffect(() => {
+    if (promoted) soundEngine.play('levelUp');
+    const timer = setTimeout(() => onDoneRef.current(), 4000);
+    return () => clearTimeout(timer);
+  }, [change]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/20 backdrop-blur-sm p-4"
+      onClick={onDone}
+    >
+      <div className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-300 p-8 text-center max-w-xs animate-bounce" style={{ animationDuration: '2s' }}>
+        <div className="flex justify-center mb-3">
+          <div className={`p-4 rounded-full ${promoted ? 'bg-yellow-100 text-yellow-500' : 'bg-sky-100 text-sky-500'}`}>
+            {promoted ? <Rocket size={40} /> : <Sparkles size={40} />}
+          </div>
+        </div>
+        <h3 className="text-2xl font-bold text-indigo-900 mb-1">
+          {promoted ? t('celebration.levelUp') : t('celebration.practice')}
+        </h3>
+        <p className="text-indigo-700/80 font-medium">
+          {rich(promoted ? 'celebration.promoted' : 'celebration.demoted', { level: <b>{levelName}</b> })}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default LevelCelebration;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { TopicMastery } from '../types';
+import { getMasteryLevel, MasteryLevel, sortMastery } from '../utils/mastery';
+import { MessageKey, useI18n } from '../i18n';
+
+const LEVEL_STYLES: Record<MasteryLevel, { label: MessageKey; stars: number; className: string }> = {
+  learning: { label: 'mastery.learning', stars: 1, className: 'bg-sky-50 text-sky-700 border-sky-200' },
+  practicing: { label: 'mastery.practicing', stars: 2, className: 'bg-yellow-100 text-yellow-700 border-yellow-200' },
+  mastered: { label: 'mastery.mastered', stars: 3, className: 'bg-green-100 text-green-700 border-green-200' },
+};
+
+interface MasteryListProps {
+  mastery: Record<string, TopicMastery>;
+  limit?: number;
+  formatTopic?: (topic: string) => string; // Shows the topic in the child's language
+}
+
+const MasteryList: React.FC<MasteryListProps> = ({ mastery, limit = 6, formatTopic = topic => topic }) => {
+  const { t } = useI18n();
+  const topics = sortMastery(mastery).slice(0, limit);
+  if (topics.length === 0) return null;
+
+  return (
+    <div className="mt-6 border-t pt-4 border-gray-100">
+      <p className="text-xs text-gray-400 uppercase font-bold tracking-wider mb-2">{t('mastery.heading')}</p>
+      <div className="flex flex-wrap justify-center gap-2">
+        {topics.map(m => {
+          const level = LEVEL_STYLES[getMasteryLevel(m)];
+          return (
+            <span
+              key={m.topic}
+              title={t('mastery.detail', { level: t(level.label), correct: m.correct, total: m.attempts })}
+              className={`inline-flex items-center text-xs px-2 py-1 rounded-md border ${level.className}`}
+            >
+              {formatTopic(m.topic)}
+              <span className="ml-1.5 flex">
+                {[1, 2, 3].map(i => (
+                  <Star
+                    key={i}
+                    size={10}
+                    className={i <= level.stars ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'}
+                  />
+                ))}
+              </span>
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default MasteryList;
@@ -0,0 +1,324 @@
+import React, { useState } from 'react';
+import { X, Clock, CalendarDays, TrendingUp, MessageCircle, BookOpen, Timer, Shield, Archive, Mic, Volume2 } from 'lucide-react';
+import { ChildProfile, CurriculumPack, RecordingInfo, RecordingSettings, SafetySettings, ScreenTimeLimits, SoundSettings } from '../types';
+import { AVATAR_ICONS } from './ProfilePicker';
+import TranscriptViewer from './TranscriptViewer';
+import CurriculumManager from './CurriculumManager';
+import ScreenTimeSettings from './ScreenTimeSettings';
+import SafetyPanel from './SafetyPanel';
+import ProfileBackup from './ProfileBackup';
+import RecordingPanel from './RecordingPanel';
+import SoundPanel from './SoundPanel';
+import { SavedProfile } from '../services/profileStorage';
+import { ImportResolution } from '../utils/profileExport';
+import { MessageKey, useI18n } from '../i18n';
+import { getSessionTeacherName } from '../personas';
+import { getLocalizedName, localizeTopic } from '../utils/curriculum';
+import {
+  formatDuration,
+  getDailyUsage,
+  getSessionMinutes,
+  getSessionScore,
+  getTopicAccuracyByDay,
+  TopicAccuracyPoint,
+} from '../utils/analytics';
+
+const SPARK_WIDTH = 120;
+const SPARK_HEIGHT = 32;
+
+// Tiny line chart of a topic's daily accuracy
+const AccuracySparkline: React.FC<{ points: TopicAccuracyPoint[] }> = ({ points }) => {
+  const step = points.length > 1 ? SPARK_WIDTH / (points.length - 1) : 0;
+  const coords = points.map((p, i) => `${points.length > 1 ? i * step : SPARK_WIDTH / 2},${SPARK_HEIGHT - 2 - p.accuracy * (SPARK_HEIGHT - 4)}`);
+
+  return (
+    <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} className="overflow-visible">
+      <line x1={0} x2={SPARK_WIDTH} y1={SPARK_HEIGHT / 2} y2={SPARK_HEIGHT / 2} stroke="#e0e7ff" strokeDasharray="3 3" />
+      <polyline points={coords.join(' ')} fill="none" stroke="#6366f1" strokeWidth={2} strokeLinejoin="round" />
+      {coords.map((c, i) => {
+        const [x, y] = c.split(',');
+        return <circle key={i} cx={x} cy={y} r={2.5} fill="#6366f1" />;
+      })}
+    </svg>
+  );
+};
+
+interface ParentDashboardProps {
+  profiles: ChildProfile[];
+  initialProfileId?: string;
+  packs: CurriculumPack[];
+  importedPackIds: string[];
+  onSelectPack: (profileId: string, packId: string) => void;
+  onImportPack: (json: string) => string[];
+  onRemovePack: (packId: string) => void;
+  onUpdateLimits: (profileId: string, limits: ScreenTimeLimits) => void;
+  onUpdateSafety: (profileId: string, safety: SafetySettings) => void;
+  onUpdateRecording: (profileId: string, recording: RecordingSettings) => void;
+  recordings: RecordingInfo[];
+  isRecordingAvailable: boolean;
+  onDownloadRecording: (recording: RecordingInfo, mode: 'mixed' | 'tracks') => Promise<MessageKey | undefined>;
+  onDeleteRecording: (id: string) => void;
+  onUpdateSounds: (profileId: string, sounds: SoundSettings) => void;
+  onImportProfile: (profile: SavedProfile, resolution?: ImportResolution) => string;
+  onClose: () => void;
+}
+
+const ParentDashboard: React.FC<ParentDashboardProps> = ({
+  profiles,
+  initialProfileId,
+  packs,
+  importedPackIds,
+  onSelectPack,
+  onImportPack,
+  onRemovePack,
+  onUpdateLimits,
+  onUpdateSafety,
+  onUpdateRecording,
+  recordings,
+  isRecordingAvailable,
+  onDownloadRecording,
+  onDeleteRecording,
+  onUpdateSounds,
+  onImportProfile,
+  onClose,
+}) => {
+  const { t, language, locale } = useI18n();
+  const [profileId, setProfileId] = useState(initialProfileId ?? profiles[0]?.id);
+  const profile = profiles.find(p => p.id === profileId);
+  const pack = packs.find(p => p.id === profile?.progress.curriculumId) ?? packs[0];
+  const formatTopic = (topic: string) => localizeTopic(pack, topic, language);
+  const formatLevel = (levelId: string) => {
+    const level = pack.levels.find(l => l.id === levelId);
+    return level ? getLocalizedName(level, language) : levelId;
+  };
+
+  const sessions = profile ? [...profile.sessions].sort((a, b) => b.startedAt - a.startedAt) : [];
+  const usage = getDailyUsage(profile?.sessions ?? []);
+  const maxMinutes = Math.max(1, ...usage.map(u => u.minutes));
+  const topicAccuracy = getTopicAccuracyByDay(profile?.evaluations ?? []);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-indigo-50 overflow-y-auto">
+      <div className="max-w-2xl mx-auto p-4 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-indigo-900">{t('dashboard.title')}</h2>
+          <button onClick={onClose} className="p-2 rounded-full bg-white text-gray-500 shadow-sm hover:bg-gray-50" aria-label={t('common.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Child Tabs */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {profiles.map(p => {
+            const Icon = AVATAR_ICONS[p.avatar];
+            return (
+              <button
+                key={p.id}
+                onClick={() => setProfileId(p.id)}
+                className={`inline-flex items-center px-3 py-1.5 rounded-full text-sm font-bold border-2 transition-all ${
+                  p.id === profileId
+                  ? 'bg-indigo-500 text-white border-indigo-500'
+                  : 'bg-white text-indigo-400 border-indigo-100 hover:border-indigo-300'
+                }`}
+              >
+                <Icon size={14} className="mr-1.5" />
+                {p.name}
+              </button>
+            );
+          })}
+        </div>
+
+        {!profile ? (
+          <p className="text-gray-500 text-center py-12">{t('dashboard.noChildren')}</p>
+        ) : (
+          <div className="space-y-6">
+
+            {/* Time Per Day */}
+            <section className="bg-white rounded-2xl p-4 shadow-sm">
+              <h3 className="flex items-center text-sm font-bold text-indigo-800 uppercase tracking-wide mb-3">
+                <CalendarDays size={16} className="mr-2" /> {t('dashboard.timePerDay')}
+              </h3>
+              <div className="flex items-end justify-between h-32 gap-2">
+                {usage.map(u => (
+                  <div key={u.day} className="flex-1 flex flex-col items-center justify-end h-full">
+                    <span className="text-[10px] text-gray-400 mb-1">{u.minutes > 0 ? formatDuration(u.minutes) : ''}</span>
+                    <div
+                      className="w-full bg-indigo-400 rounded-t-md"
+                      style={{ height: `${(u.minutes / maxMinutes) * 100}%`, minHeight: u.minutes > 0 ? 4 : 0 }}
+                    />
+                    <span className="text-[10px] text-gray-500 mt-1">
+                      {new Date(`${u.day}T00:00`).toLocaleDateString(locale, { weekday: 'short' })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* Accuracy Per Topic */}
+            <section className="bg-white rounded-2xl p-4 shadow-sm">
+              <h3 className="flex items-center text-sm font-bold text-indigo-800 uppercase tracking-wide mb-3">
+                <TrendingUp size={16} className="mr-2" /> {t('dashboard.accuracyPerTopic')}
+              </h3>
+              {Object.keys(topicAccuracy).length === 0 ? (
+                <p className="text-sm text-gray-400">{t('dashboard.noAnswers')}</p>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {Object.entries(topicAccuracy).map(([topic, points]) => {
+                    const correct = points.reduce((sum, p) => sum + p.correct, 0);
+                    const total = points.reduce((sum, p) => sum + p.total, 0);
+                    return (
+                      <div key={topic} className="flex items-center justify-between py-2">
+                        <div>
+                          <p className="font-bold text-gray-700 text-sm">{formatTopic(topic)}</p>
+                          <p className="text-xs text-gray-400">{t('dashboard.correctOfTotal', { correct, total })}</p>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <AccuracySparkline points={points} />
+                          <span className="w-10 text-right text-sm font-bold text-indigo-600">{Math.round((correct / total) * 100)}%</span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+
+            {/* Session History */}
+            <section className="bg-white rounded-2xl p-4 shadow-sm">
+              <h3 className="flex items-center text-sm font-bold text-indigo-800 uppercase tracking-wide mb-3">
+                <Clock size={16} className="mr-2" /> {t('dashboard.sessions')}
+              </h3>
+              {sessions.length === 0 ? (
+                <p className="text-sm text-gray-400">{t('dashboard.noSessions')}</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-400 uppercase">
+                      <th className="font-bold pb-2">{t('dashboard.started')}</th>
+                      <th className="font-bold pb-2">{t('dashboard.length')}</th>
+                      <th className="font-bold pb-2">{t('dashboard.level')}</th>
+                      <th className="font-bold pb-2">{t('dashboard.topic')}</th>
+                      <th className="font-bold pb-2 text-right">{t('dashboard.score')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 text-gray-700">
+                    {sessions.map(session => {
+                      const score = getSessionScore(session, profile.evaluations);
+                      return (
+                        <tr key={session.id}>
+                          <td className="py-2">
+                            {new Date(session.startedAt).toLocaleString(locale, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                            {session.endedAt && (
+                              <span className="text-gray-400"> - {new Date(session.endedAt).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' })}</span>
+                            )}
+                          </td>
+                          <td className="py-2">{session.endedAt ? formatDuration(getSessionMinutes(session)) : '?'}</td>
+                          <td className="py-2">{formatLevel(session.difficulty)}</td>
+                          <td className="py-2">{session.focusTopic ? formatTopic(session.focusTopic) : t('app.mix')}</td>
+                          <td className="py-2 text-right">{score.total > 0 ? `${score.correct}/${score.total}` : '-'}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            {/* Screen Time */}
+            <section className="bg-white rounded-2xl p-4 shadow-sm">
+              <h3 className="flex items-center text-sm font-bold text-indigo-800 uppercase tracking-wide mb-3">
+                <Timer size={16} className="mr-2" /> {t('dashboard.screenTime')}
+              </h3>
+              <ScreenTimeSettings
+                limits={profile.limits}
+                sessions={profile.sessions}
+                childName={profile.name}
+                onChange={limits => onUpdateLimits(profile.id, limits)}
+              />
+            </section>
+
+            {/* Safety */}
+            <section className="bg-white rounded-2xl p-4 shadow-sm">
+              <h3 className="flex items-center text-sm font-bold text-indigo-800 uppercase tracking-wide mb-3">
+                <Shield size={16} className="mr-2" /> {t('dashboard.safety')}
+              </h3>
+              <SafetyPanel
+                settings={profile.safety}
+                alerts={profile.safetyAlerts}
+                childName={profile.name}
+                teacherName={sessionId => getSessionTeacherName(profile, sessionId)}
+                formatTopic={formatTopic}
+                onChange={safety => onUpdateSafety(profile.id, safety)}
+              />
+            </section>
+
+            {/* Recordings */}
+            <section className="bg-white rounded-2xl p-4 shadow-sm">
+              <h3 className="flex items-center text-sm font-bold text-indigo-800 uppercase tracking-wide mb-3">
+                <Mic size={16} className="mr-2" /> {t('dashboard.recordings')}
+              </h3>
+              <RecordingPanel
+                settings={profile.recording}
+                recordings={recordings.filter(r => r.profileId === profile.id)}
+                childName={profile.name}
+                isAvailable={isRecordingAvailable}
+                onChange={recording => onUpdateRecording(profile.id, recording)}
+                onDownload={onDownloadRecording}
+                onDelete={onDeleteRecording}
+              />
+            </section>
+
+            {/* Sound Effects */}
+            <section className="bg-white rounded-2xl p-4 shadow-sm">
+              <h3 className="flex items-center text-sm font-bold text-indigo-800 uppercase tracking-wide mb-3">
+                <Volume2 size={16} className="mr-2" /> {t('dashboard.sounds')}
+              </h3>
+              <SoundPanel settings={profile.sounds} onChange={sounds => onUpdateSounds(profile.id, sounds)} />
+            </section>
+
+            {/* Curriculum */}
+            <section className="bg-white rounded-2xl p-4 shadow-sm">
+              <h3 className="flex items-center text-sm font-bold text-indigo-800 uppercase tracking-wide mb-3">
+                <BookOpen size={16} className="mr-2" /> {t('dashboard.curriculum')}
+              </h3>
+              <CurriculumManager
+                packs={packs}
+                importedPackIds={importedPackIds}
+                selectedPackId={profile.progress.curriculumId}
+                childName={profile.name}
+                onSelect={packId => onSelectPack(profile.id, packId)}
+                onImport={onImportPack}
+                onRemove={onRemovePack}
+              />
+            </section>
+
+            {/* Transcripts */}
+            <section className="bg-white rounded-2xl p-4 shadow-sm">
+              <h3 className="flex items-center text-sm font-bold text-indigo-800 uppercase tracking-wide mb-3">
+                <MessageCircle size={16} className="mr-2" /> {t('dashboard.transcripts')}
+              </h3>
+              <TranscriptViewer profile={profile} formatTopic={formatTopic} />
+            </section>
+
+          </div>
+        )}
+
+        {/* Backup, also shown before any child is added so one can be restored */}
+        <section className="bg-white rounded-2xl p-4 shadow-sm mt-6">
+          <h3 className="flex items-center text-sm font-bold text-indigo-800 uppercase tracking-wide mb-3">
+            <Archive size={16} className="mr-2" /> {t('dashboard.backup')}
+          </h3>
+          <ProfileBackup
+            profile={profile}
+            profiles={profiles}
+            formatTopic={formatTopic}
+            formatLevel={formatLevel}
+            onImport={(saved, resolution) => setProfileId(onImportProfile(saved, resolution))}
+          />
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ParentDashboard;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { FaceExpression, PersonaTheme } from '../types';
+import { CLOSED_MOUTH, MouthShape } from '../utils/lipSync';
+
+interface PersonaFaceProps {
+  theme: PersonaTheme;
+  isSpeaking?: boolean;
+  mouth?: MouthShape; // Live shape of the teacher's voice; a fixed open mouth while speaking if missing
+  expression?: FaceExpression;
+}
+
+// Stands in for the voice when no live mouth shape is given
+const SPEAKING_MOUTH: MouthShape = { level: 0.6, round: 0.3, open: 0.5, hiss: 0.2 };
+
+/**
+ * Mouth size in px for a frame of the voice: louder opens it taller, low sounds
+ * make it narrow and round, middle sounds wide, and hissing keeps it flat.
+ */
+const getMouthSize = ({ level, round, open, hiss }: MouthShape, baseWidth: number) => ({
+  width: baseWidth * (1 + 0.6 * (open - round)),
+  height: 3 + level * 18 * (1 - 0.6 * hiss),
+});
+
+/**
+ * The teacher's face, drawn to fit a 160px circle. Scale it down for thumbnails.
+ */
+const PersonaFace: React.FC<PersonaFaceProps> = ({ theme, isSpeaking = false, mouth, expression = 'idle' }) => {
+  const voice = mouth ?? (isSpeaking ? SPEAKING_MOUTH : CLOSED_MOUTH);
+  // Eyes widen a little with the voice, and narrow to a kind look when encouraging
+  const eyeHeight = isSpeaking ? 16 + voice.level * 8 : expression === 'encouraging' ? 12 : 16;
+  const eyeMotion = expression === 'idle' ? 'animate-blink' : expression === 'thinking' ? '-translate-y-1 translate-x-1' : '';
+
+  const renderEye = (shape: string) => expression === 'celebrating' ? (
+    // Happy, upturned eyes
+    <div className="w-5 h-3 mt-1 border-t-4 border-gray-800 rounded-t-full"></div>
+  ) : (
+    <div className={`w-4 bg-gray-800 transition-all duration-100 ${shape} ${eyeMotion}`} style={{ height: eyeHeight }}></div>
+  );
+
+  const renderMouth = () => {
+    if (theme.face === 'owl') {
+      const scale = isSpeaking ? 1 + voice.level * 0.5 : expression === 'celebrating' ? 1.25 : 1;
+      return <div className={`w-4 h-4 rounded-sm ${theme.accent} transition-transform duration-100`} style={{ transform: `rotate(45deg) scale(${scale})` }}></div>;
+    }
+    if (isSpeaking) {
+      const size = getMouthSize(voice, theme.face === 'robot' ? 40 : 28);
+      return <div className={`bg-gray-800 transition-all duration-75 ${theme.face === 'robot' ? 'rounded-sm' : 'rounded-full'}`} style={size}></div>;
+    }
+    if (theme.face === 'robot') {
+      return (
+        <div className={`bg-gray-800 transition-all duration-200 ${
+          expression === 'celebrating' ? 'w-10 h-3 rounded-b-lg' : expression === 'thinking' ? 'w-6 h-1.5 rounded-sm translate-x-2' : expression === 'encouraging' ? 'w-8 h-1.5 rounded-sm' : 'w-10 h-1.5 rounded-sm'
+        }`}></div>
+      );
+    }
+    switch (expression) {
+      case 'celebrating':
+        return <div className="w-10 h-5 bg-gray-800 rounded-b-full transition-all duration-200"></div>;
+      case 'encouraging':
+        return <div className="w-8 h-3 border-b-4 border-gray-800 rounded-full transition-all duration-200"></div>;
+      case 'thinking':
+        return <div className="w-4 h-1 bg-gray-800 rounded-full translate-x-2 transition-all duration-200"></div>;
+      default:
+        return <div className="w-6 h-2 border-b-4 border-gray-800 rounded-full transition-all duration-200"></div>;
+    }
+  };
+
+  return (
+    <div className="relative w-40 h-40 flex items-center justify-center">
+      {/* Cat ears */}
+      {theme.face === 'cat' && (
+        <>
+          <div className={`absolute top-3 left-8 w-8 h-8 rotate-45 rounded-sm ${theme.accent}`}></div>
+          <div className={`absolute top-3 right-8 w-8 h-8 rotate-45 rounded-sm ${theme.accent}`}></div>
+          <div className="absolute inset-3 rounded-full bg-white"></div>
+        </>
+      )}
+
+      {/* Robot antenna */}
+      {theme.face === 'robot' && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 flex flex-col items-center">
+          <div className={`w-3 h-3 rounded-full ${theme.accent} ${isSpeaking || expression === 'thinking' ? 'animate-ping' : ''}`}></div>
+          <div className={`w-1 h-4 ${theme.accent}`}></div>
+        </div>
+      )}
+
+      {/* Thinking dots */}
+      {expression === 'thinking' && (
+        <div className="absolute top-6 right-6 flex space-x-1 animate-pulse">
+          {[0, 1, 2].map(i => <div key={i} className={`w-2 h-2 rounded-full ${theme.accent}`}></div>)}
+        </div>
+      )}
+
+      {/* Head tilt when encouraging */}
+      <div className={`transition-transform duration-500 ${expression === 'encouraging' ? 'rotate-6' : ''}`}>
+        <div className={`relative flex flex-col items-center justify-center space-y-2 ${expression === 'celebrating' ? 'animate-bounce' : 'animate-float'}`}>
+          {/* Eyes */}
+          {theme.face === 'owl' ? (
+            <div className="flex space-x-2">
+              {[0, 1].map(i => (
+                <div key={i} className={`w-10 h-10 rounded-full border-4 ${theme.border} flex items-center justify-center`}>
+                  {renderEye('rounded-full')}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex space-x-4">
+              {[0, 1].map(i => <React.Fragment key={i}>{renderEye(theme.face === 'robot' ? 'rounded-sm' : 'rounded-full')}</React.Fragment>)}
+            </div>
+          )}
+
+          {/* Mouth */}
+          {renderMouth()}
+
+          {/* Whiskers */}
+          {theme.face === 'cat' && (
+            <div className="absolute bottom-1 w-28 flex justify-between pointer-events-none">
+              <div className="space-y-1"><div className="w-6 h-0.5 bg-gray-400"></div><div className="w-6 h-0.5 bg-gray-400"></div></div>
+              <div className="space-y-1"><div className="w-6 h-0.5 bg-gray-400"></div><div className="w-6 h-0.5 bg-gray-400"></div></div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaFace;
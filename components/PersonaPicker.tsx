@@ -0,0 +1,45 @@
+import React from 'react';
+import { Persona } from '../types';
+import { useI18n } from '../i18n';
+import PersonaFace from './PersonaFace';
+
+interface PersonaPickerProps {
+  personas: Persona[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+const PersonaPicker: React.FC<PersonaPickerProps> = ({ personas, selectedId, onSelect }) => {
+  const { t, language } = useI18n();
+  const selected = personas.find(p => p.id === selectedId);
+
+  return (
+    <div className="mb-4">
+      <label className="block text-indigo-800 text-xs font-bold mb-2 uppercase tracking-wide">{t('app.chooseTeacher')}</label>
+      <div className="flex justify-center gap-3">
+        {personas.map(persona => {
+          const isSelected = persona.id === selectedId;
+          return (
+            <button
+              key={persona.id}
+              onClick={() => onSelect(persona.id)}
+              title={persona.tagline[language]}
+              className={`flex flex-col items-center transition-all ${isSelected ? 'scale-110' : 'opacity-70 hover:opacity-100'}`}
+            >
+              <span className={`block w-14 h-14 rounded-full overflow-hidden bg-white border-4 ${isSelected ? persona.theme.border : 'border-white'} shadow-sm`}>
+                {/* The face is drawn at 160px; shrink it to fit the thumbnail */}
+                <span className="block origin-top-left" style={{ transform: 'scale(0.3)' }}>
+                  <PersonaFace theme={persona.theme} />
+                </span>
+              </span>
+              <span className={`mt-1 text-xs font-bold ${isSelected ? 'text-indigo-700' : 'text-gray-400'}`}>{persona.name}</span>
+            </button>
+          );
+        })}
+      </div>
+      {selected && <p className="text-xs text-gray-400 mt-1">{selected.tagline[language]}</p>}
+    </div>
+  );
+};
+
+export default PersonaPicker;
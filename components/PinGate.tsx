@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Lock, X } from 'lucide-react';
+import { checkParentPin, hasParentPin, isValidPin, setParentPin } from '../utils/parentPin';
+import { useI18n } from '../i18n';
+
+interface PinGateProps {
+  title?: string;
+  onUnlock: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for the parent PIN, or lets the parent choose one the first time.
+ */
+const PinGate: React.FC<PinGateProps> = ({ title, onUnlock, onCancel }) => {
+  const { t } = useI18n();
+  const [isSetup] = useState(() => !hasParentPin());
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(pin)) {
+      setError(t('pin.invalid'));
+      return;
+    }
+    if (isSetup) {
+      setParentPin(pin);
+      onUnlock();
+    } else if (checkParentPin(pin)) {
+      onUnlock();
+    } else {
+      setError(t('pin.wrong'));
+      setPin('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-indigo-900/30 backdrop-blur-sm p-4">
+      <form onSubmit={handleSubmit} className="relative bg-white rounded-3xl shadow-2xl p-6 w-full max-w-xs text-center">
+        <button type="button" onClick={onCancel} className="absolute top-3 right-3 p-1 text-gray-400 hover:text-gray-600" aria-label={t('common.close')}>
+          <X size={18} />
+        </button>
+        <div className="flex justify-center mb-3">
+          <div className="bg-indigo-100 text-indigo-500 p-3 rounded-full">
+            <Lock size={24} />
+          </div>
+        </div>
+        <h3 className="text-lg font-bold text-indigo-900 mb-1">{title ?? t('pin.title')}</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {isSetup ? t('pin.choose') : t('pin.enter')}
+        </p>
+        <input
+          value={pin}
+          onChange={e => { setPin(e.target.value.replace(/\D/g, '').slice(0, 4)); setError(null); }}
+          type="password"
+          inputMode="numeric"
+          autoFocus
+          className="w-32 text-center tracking-[0.5em] text-2xl px-3 py-2 rounded-xl border-2 border-indigo-100 focus:outline-none focus:border-indigo-300"
+        />
+        {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+        <button type="submit" className="mt-4 w-full py-2 rounded-full bg-indigo-500 text-white font-bold hover:bg-indigo-600">
+          {isSetup ? t('pin.save') : t('pin.unlock')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default PinGate;
@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { ChildProfile } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+import { SavedProfile } from '../services/profileStorage';
+import { downloadFile } from '../utils/download';
+import { exportAnswersCsv, exportProfile, getExportFileName, ImportResolution, validateProfileBackup } from '../utils/profileExport';
+import { AVATAR_ICONS } from './ProfilePicker';
+
+interface ProfileBackupProps {
+  profile?: ChildProfile;
+  profiles: ChildProfile[];
+  formatTopic?: (topic: string) => string;
+  formatLevel?: (levelId: string) => string;
+  onImport: (profile: SavedProfile, resolution?: ImportResolution) => void;
+}
+
+const RESOLUTIONS: Record<ImportResolution, { label: MessageKey; detail: MessageKey }> = {
+  merge: { label: 'backup.merge', detail: 'backup.mergeDetail' },
+  replace: { label: 'backup.replace', detail: 'backup.replaceDetail' },
+  copy: { label: 'backup.copy', detail: 'backup.copyDetail' },
+};
+
+const ProfileBackup: React.FC<ProfileBackupProps> = ({ profile, profiles, formatTopic, formatLevel, onImport }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [failure, setFailure] = useState<MessageKey | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [restored, setRestored] = useState<string | null>(null);
+  // A backup of a child who is already here, waiting for the parent to choose what to do
+  const [conflict, setConflict] = useState<SavedProfile | null>(null);
+
+  const restore = (saved: SavedProfile, resolution?: ImportResolution) => {
+    onImport(saved, resolution);
+    setConflict(null);
+    setRestored(saved.name);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again after fixing it
+    if (!file) return;
+    setRestored(null);
+    setConflict(null);
+    setFailure(null);
+    setErrors([]);
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setFailure('backup.notJson');
+      return;
+    }
+    const result = validateProfileBackup(data);
+    setFailure(result.failure ?? null);
+    setErrors(result.errors);
+    if (!result.profile) return;
+
+    // Avatars from a newer version of the app fall back to the cat
+    const saved = result.profile.avatar in AVATAR_ICONS ? result.profile : { ...result.profile, avatar: 'cat' as const };
+    if (profiles.some(p => p.id === saved.id)) {
+      setConflict(saved);
+    } else {
+      restore(saved);
+    }
+  };
+
+  const buttonClass = 'inline-flex items-center px-3 py-1.5 rounded-full text-xs font-bold bg-white text-indigo-500 border-2 border-indigo-100 hover:border-indigo-300';
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 mb-3">{t('backup.intro')}</p>
+      <div className="flex flex-wrap gap-2">
+        {profile && (
+          <>
+            <button
+              onClick={() => downloadFile(getExportFileName(profile, 'json'), exportProfile(profile), 'application/json')}
+              className={buttonClass}
+            >
+              <Download size={12} className="mr-1.5" /> {t('backup.export', { name: profile.name })}
+            </button>
+            <button
+              onClick={() => downloadFile(getExportFileName(profile, 'csv'), exportAnswersCsv(profile, formatTopic, formatLevel), 'text/csv')}
+              disabled={profile.evaluations.length === 0}
+              className={`${buttonClass} disabled:opacity-50`}
+            >
+              <FileSpreadsheet size={12} className="mr-1.5" /> {t('backup.exportCsv')}
+            </button>
+          </>
+        )}
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          <Upload size={12} className="mr-1.5" /> {t('backup.import')}
+        </button>
+      </div>
+
+      {conflict && (
+        <div className="mt-3 bg-indigo-50 border border-indigo-100 rounded-xl p-3">
+          <p className="text-sm text-indigo-900 font-bold mb-2">{t('backup.conflict', { name: conflict.name })}</p>
+          <div className="space-y-1.5">
+            {(Object.keys(RESOLUTIONS) as ImportResolution[]).map(resolution => (
+              <button
+                key={resolution}
+                onClick={() => restore(conflict, resolution)}
+                className="w-full text-left rounded-lg bg-white border border-indigo-100 hover:border-indigo-300 px-3 py-2"
+              >
+                <span className="block text-sm font-bold text-indigo-600">{t(RESOLUTIONS[resolution].label)}</span>
+                <span className="block text-xs text-gray-400">{t(RESOLUTIONS[resolution].detail)}</span>
+              </button>
+            ))}
+          </div>
+          <button onClick={() => setConflict(null)} className="mt-2 text-xs font-bold text-gray-400 hover:text-gray-600">
+            {t('common.cancel')}
+          </button>
+        </div>
+      )}
+
+      {restored && <p className="text-xs text-green-600 mt-2">{t('backup.imported', { name: restored })}</p>}
+      {(failure || errors.length > 0) && (
+        <div className="mt-2 bg-red-50 border border-red-100 rounded-xl p-2 text-xs text-red-600">
+          <p className="font-bold mb-1">{t('backup.importFailed')}</p>
+          {failure && <p>{t(failure)}</p>}
+          <ul className="list-disc pl-4 space-y-0.5">
+            {errors.slice(0, 8).map(error => <li key={error}>{error}</li>)}
+          </ul>
+          {errors.length > 8 && <p className="mt-1">{t('curriculum.moreErrors', { count: errors.length - 8 })}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileBackup;
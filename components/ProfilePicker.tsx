@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Cat, Dog, Rabbit, Bird, Fish, Turtle, Panda, Squirrel, UserPlus, Pencil, Trash2, Check, X, LucideIcon } from 'lucide-react';
+import { AvatarId, ChildProfile, LanguageCode } from '../types';
+import { NewProfileDetails } from '../hooks/useProfiles';
+import { isLanguageCode, LANGUAGE_CODES, LANGUAGES, useI18n } from '../i18n';
+
+export const AVATAR_ICONS: Record<AvatarId, LucideIcon> = {
+  cat: Cat,
+  dog: Dog,
+  rabbit: Rabbit,
+  bird: Bird,
+  fish: Fish,
+  turtle: Turtle,
+  panda: Panda,
+  squirrel: Squirrel,
+};
+
+const AVATAR_IDS = Object.keys(AVATAR_ICONS) as AvatarId[];
+
+interface ProfileFormProps {
+  initial?: ChildProfile;
+  onSave: (details: NewProfileDetails) => void;
+  onCancel?: () => void;
+}
+
+const SELECT_CLASS = 'w-full px-2 py-2 rounded-xl border-2 border-indigo-100 bg-white text-sm focus:outline-none focus:border-indigo-300';
+
+const ProfileForm: React.FC<ProfileFormProps> = ({ initial, onSave, onCancel }) => {
+  const { t, language: uiLanguage } = useI18n();
+  const [name, setName] = useState(initial?.name ?? '');
+  const [age, setAge] = useState(initial?.age?.toString() ?? '');
+  const [avatar, setAvatar] = useState<AvatarId>(initial?.avatar ?? 'cat');
+  const [language, setLanguage] = useState<LanguageCode>(initial?.language ?? uiLanguage);
+  const [secondLanguage, setSecondLanguage] = useState<LanguageCode | undefined>(initial?.secondLanguage);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const parsedAge = parseInt(age, 10);
+    onSave({
+      name: trimmed,
+      age: Number.isNaN(parsedAge) ? undefined : parsedAge,
+      avatar,
+      language,
+      secondLanguage: secondLanguage !== language ? secondLanguage : undefined
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-indigo-50 rounded-2xl p-3 space-y-3 text-left">
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder={t('profile.name')}
+          maxLength={20}
+          autoFocus
+          className="flex-1 min-w-0 px-3 py-2 rounded-xl border-2 border-indigo-100 text-sm focus:outline-none focus:border-indigo-300"
+        />
+        <input
+          value={age}
+          onChange={e => setAge(e.target.value.replace(/\D/g, ''))}
+          placeholder={t('profile.age')}
+          inputMode="numeric"
+          maxLength={2}
+          className="w-16 px-3 py-2 rounded-xl border-2 border-indigo-100 text-sm focus:outline-none focus:border-indigo-300"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-[10px] font-bold text-indigo-800 uppercase">
+          {t('profile.language')}
+          <select value={language} onChange={e => setLanguage(e.target.value as LanguageCode)} className={`${SELECT_CLASS} mt-1 normal-case font-normal`}>
+            {LANGUAGE_CODES.map(code => <option key={code} value={code}>{LANGUAGES[code].nativeName}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] font-bold text-indigo-800 uppercase">
+          {t('profile.secondLanguage')}
+          <select
+            value={secondLanguage ?? ''}
+            onChange={e => setSecondLanguage(isLanguageCode(e.target.value) ? e.target.value : undefined)}
+            className={`${SELECT_CLASS} mt-1 normal-case font-normal`}
+          >
+            <option value="">{t('profile.noSecondLanguage')}</option>
+            {LANGUAGE_CODES.filter(code => code !== language).map(code => <option key={code} value={code}>{LANGUAGES[code].nativeName}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2 justify-center">
+        {AVATAR_IDS.map(id => {
+          const Icon = AVATAR_ICONS[id];
+          return (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setAvatar(id)}
+              aria-label={id}
+              className={`p-2 rounded-full border-2 transition-all ${
+                avatar === id
+                ? 'bg-indigo-500 text-white border-indigo-500 scale-110'
+                : 'bg-white text-indigo-400 border-indigo-100 hover:border-indigo-300'
+              }`}
+            >
+              <Icon size={18} />
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="p-2 rounded-full bg-white text-gray-500 border border-gray-200 hover:bg-gray-50" aria-label={t('common.cancel')}>
+            <X size={16} />
+          </button>
+        )}
+        <button type="submit" disabled={!name.trim()} className="p-2 rounded-full bg-indigo-500 text-white hover:bg-indigo-600 disabled:opacity-50" aria-label={t('common.save')}>
+          <Check size={16} />
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface ProfilePickerProps {
+  profiles: ChildProfile[];
+  activeProfileId?: string;
+  onSelect: (id: string) => void;
+  onCreate: (details: NewProfileDetails) => void;
+  onUpdate: (id: string, details: NewProfileDetails) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ profiles, activeProfileId, onSelect, onCreate, onUpdate, onDelete }) => {
+  const { t } = useI18n();
+  // 'new' while adding a child, a profile id while editing one
+  const [editing, setEditing] = useState<string | null>(null);
+
+  // Nobody has a profile yet, so ask for one straight away
+  if (profiles.length === 0) {
+    return (
+      <div className="mb-4">
+        <label className="block text-indigo-800 text-xs font-bold mb-2 uppercase tracking-wide">{t('profile.whoIsLearning')}</label>
+        <ProfileForm onSave={onCreate} />
+      </div>
+    );
+  }
+
+  const editingProfile = profiles.find(p => p.id === editing);
+
+  return (
+    <div className="mb-4">
+      <label className="block text-indigo-800 text-xs font-bold mb-2 uppercase tracking-wide">{t('profile.whoIsLearning')}</label>
+      <div className="flex flex-wrap gap-2 justify-center mb-2">
+        {profiles.map(profile => {
+          const Icon = AVATAR_ICONS[profile.avatar] ?? Cat;
+          const isActive = profile.id === activeProfileId;
+          return (
+            <button
+              key={profile.id}
+              onClick={() => onSelect(profile.id)}
+              className={`flex items-center space-x-1.5 pl-1.5 pr-3 py-1 rounded-full text-sm font-bold border-2 transition-all ${
+                isActive
+                ? 'bg-indigo-500 text-white border-indigo-500 shadow-md'
+                : 'bg-white text-indigo-400 border-indigo-100 hover:border-indigo-300'
+              }`}
+            >
+              <span className={`p-1 rounded-full ${isActive ? 'bg-white/20' : 'bg-indigo-50'}`}>
+                <Icon size={16} />
+              </span>
+              <span>{profile.name}</span>
+            </button>
+          );
+        })}
+        {editing === null && (
+          <button
+            onClick={() => setEditing('new')}
+            className="p-2 rounded-full bg-white text-indigo-400 border-2 border-dashed border-indigo-200 hover:border-indigo-400"
+            aria-label={t('profile.addChild')}
+          >
+            <UserPlus size={16} />
+          </button>
+        )}
+      </div>
+
+      {editing === null && activeProfileId && (
+        <div className="flex justify-center gap-3 text-xs text-gray-400">
+          <button onClick={() => setEditing(activeProfileId)} className="inline-flex items-center hover:text-indigo-500">
+            <Pencil size={12} className="mr-1" /> {t('profile.edit')}
+          </button>
+          <button
+            onClick={() => {
+              const profile = profiles.find(p => p.id === activeProfileId);
+              if (profile && window.confirm(t('profile.confirmDelete', { name: profile.name }))) {
+                onDelete(activeProfileId);
+              }
+            }}
+            className="inline-flex items-center hover:text-red-500"
+          >
+            <Trash2 size={12} className="mr-1" /> {t('profile.delete')}
+          </button>
+        </div>
+      )}
+
+      {editing === 'new' && (
+        <ProfileForm
+          onSave={details => { onCreate(details); setEditing(null); }}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+      {editingProfile && (
+        <ProfileForm
+          key={editingProfile.id}
+          initial={editingProfile}
+          onSave={details => { onUpdate(editingProfile.id, details); setEditing(null); }}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProfilePicker;
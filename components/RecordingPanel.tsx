@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Download, Headphones, Trash2 } from 'lucide-react';
+import { RecordingInfo, RecordingSettings } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+import { formatDuration } from '../utils/analytics';
+import { RETENTION_OPTIONS } from '../utils/recording';
+
+interface RecordingPanelProps {
+  settings: RecordingSettings;
+  recordings: RecordingInfo[]; // This child's recordings, newest first
+  childName: string;
+  isAvailable: boolean;
+  onChange: (settings: RecordingSettings) => void;
+  onDownload: (recording: RecordingInfo, mode: 'mixed' | 'tracks') => Promise<MessageKey | undefined>; // Resolves to why it failed
+  onDelete: (id: string) => void;
+}
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const RecordingPanel: React.FC<RecordingPanelProps> = ({ settings, recordings, childName, isAvailable, onChange, onDownload, onDelete }) => {
+  const { t, locale } = useI18n();
+  const [downloadError, setDownloadError] = useState<MessageKey | null>(null);
+
+  if (!isAvailable) {
+    return <p className="text-sm text-gray-400">{t('recording.unavailable')}</p>;
+  }
+
+  const download = async (recording: RecordingInfo, mode: 'mixed' | 'tracks') => {
+    setDownloadError(null);
+    setDownloadError(await onDownload(recording, mode) ?? null);
+  };
+
+  const buttonClass = 'inline-flex items-center px-2 py-1 rounded-full text-[10px] font-bold bg-white text-indigo-500 border border-indigo-100 hover:border-indigo-300';
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 mb-3">{t('recording.privacy', { name: childName })}</p>
+
+      <label className="flex items-center text-sm text-gray-600 mb-2">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={e => onChange({ ...settings, enabled: e.target.checked })}
+          className="mr-2"
+        />
+        {t('recording.enabled', { name: childName })}
+      </label>
+      <label className="flex items-center text-sm text-gray-600 mb-4">
+        {t('recording.keepFor')}
+        <select
+          value={settings.retentionDays}
+          onChange={e => onChange({ ...settings, retentionDays: Number(e.target.value) })}
+          className="ml-2 px-2 py-1 rounded-lg border-2 border-indigo-100 text-sm"
+        >
+          {RETENTION_OPTIONS.map(days => (
+            <option key={days} value={days}>{t('recording.days', { count: days })}</option>
+          ))}
+        </select>
+      </label>
+
+      {recordings.length === 0 ? (
+        <p className="text-sm text-gray-400">{t('recording.none')}</p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+          {recordings.map(recording => (
+            <div key={recording.id} className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-gray-100 px-3 py-2">
+              <div>
+                <p className="text-sm text-gray-700">
+                  {new Date(recording.startedAt).toLocaleString(locale, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                </p>
+                <p className="text-[10px] text-gray-400">
+                  {formatDuration(recording.durationMs / 60000)} · {formatSize(recording.bytes)}
+                </p>
+              </div>
+              <div className="flex gap-1.5">
+                <button onClick={() => download(recording, 'mixed')} className={buttonClass}>
+                  <Download size={10} className="mr-1" /> {t('recording.download')}
+                </button>
+                <button onClick={() => download(recording, 'tracks')} className={buttonClass} title={t('recording.tracksDetail')}>
+                  <Headphones size={10} className="mr-1" /> {t('recording.tracks')}
+                </button>
+                <button onClick={() => onDelete(recording.id)} className={`${buttonClass} text-red-500`} aria-label={t('recording.delete')}>
+                  <Trash2 size={10} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {downloadError && (
+        <div className="mt-2 bg-red-50 border border-red-100 rounded-xl p-2 text-xs text-red-600">
+          <p className="font-bold mb-1">{t('recording.downloadFailed')}</p>
+          <p>{t(downloadError)}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordingPanel;
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, Pause, Shuffle } from 'lucide-react';
+import { SafetyAlert, SafetyCategory, SafetySettings } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+import { SAFETY_TOPICS } from '../utils/safety';
+
+const TOPIC_LABELS: Record<string, MessageKey> = {
+  violence: 'safety.topic.violence',
+  scary: 'safety.topic.scary',
+  adult: 'safety.topic.adult',
+  drugs: 'safety.topic.drugs',
+  insults: 'safety.topic.insults',
+};
+
+const DETAIL_LABELS: Record<string, MessageKey> = {
+  email: 'safety.detail.email',
+  phone: 'safety.detail.phone',
+  address: 'safety.detail.address',
+  name: 'safety.detail.name',
+  request: 'safety.detail.request',
+};
+
+const CATEGORY_STYLES: Record<SafetyCategory, { label: MessageKey; className: string }> = {
+  blockedContent: { label: 'safety.blockedContent', className: 'bg-red-100 text-red-700' },
+  personalInfo: { label: 'safety.personalDetails', className: 'bg-orange-100 text-orange-700' },
+  offTopic: { label: 'safety.offTopic', className: 'bg-sky-100 text-sky-700' },
+};
+
+const parseWords = (value: string): string[] =>
+  value.split(',').map(w => w.trim()).filter(Boolean);
+
+interface SafetyPanelProps {
+  settings: SafetySettings;
+  alerts: SafetyAlert[];
+  childName: string;
+  teacherName: (sessionId: string) => string; // Teacher of the class the alert came from
+  formatTopic?: (topic: string) => string;
+  onChange: (settings: SafetySettings) => void;
+}
+
+const SafetyPanel: React.FC<SafetyPanelProps> = ({ settings, alerts, childName, teacherName, formatTopic = topic => topic, onChange }) => {
+  const { t, locale } = useI18n();
+  // Edited as free text so commas can be typed; saved when the field loses focus
+  const [words, setWords] = useState(settings.blockedWords.join(', '));
+  useEffect(() => setWords(settings.blockedWords.join(', ')), [settings.blockedWords]);
+
+  const toggleTopic = (topic: string) => {
+    const blockedTopics = settings.blockedTopics.includes(topic)
+      ? settings.blockedTopics.filter(id => id !== topic)
+      : [...settings.blockedTopics, topic];
+    onChange({ ...settings, blockedTopics });
+  };
+
+  const describeRule = (alert: SafetyAlert): string => {
+    switch (alert.category) {
+      case 'blockedContent': return TOPIC_LABELS[alert.rule] ? t(TOPIC_LABELS[alert.rule]) : `"${alert.rule}"`;
+      case 'personalInfo': return DETAIL_LABELS[alert.rule] ? t(DETAIL_LABELS[alert.rule]) : alert.rule;
+      case 'offTopic': return formatTopic(alert.rule);
+    }
+  };
+
+  const newestFirst = [...alerts].sort((a, b) => b.timestamp - a.timestamp);
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 mb-3">{t('safety.intro', { name: childName })}</p>
+
+      <p className="text-xs font-bold text-gray-500 mb-1">{t('safety.topics')}</p>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {Object.keys(SAFETY_TOPICS).map(topic => {
+          const isBlocked = settings.blockedTopics.includes(topic);
+          return (
+            <button
+              key={topic}
+              onClick={() => toggleTopic(topic)}
+              className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${
+                isBlocked ? 'bg-red-50 text-red-600 border-red-200' : 'bg-white text-gray-400 border-gray-200'
+              }`}
+            >
+              {t(TOPIC_LABELS[topic])}
+            </button>
+          );
+        })}
+      </div>
+
+      <label className="block text-xs font-bold text-gray-500 mb-3">
+        {t('safety.blockedWords')}
+        <input
+          value={words}
+          onChange={e => setWords(e.target.value)}
+          onBlur={() => onChange({ ...settings, blockedWords: parseWords(words) })}
+          className="w-full mt-1 px-3 py-2 rounded-xl border-2 border-indigo-100 focus:outline-none focus:border-indigo-300 text-sm font-normal"
+        />
+      </label>
+
+      <label className="flex items-center text-sm text-gray-600 mb-2">
+        <input
+          type="checkbox"
+          checked={settings.detectPersonalInfo}
+          onChange={e => onChange({ ...settings, detectPersonalInfo: e.target.checked })}
+          className="mr-2"
+        />
+        {t('safety.personalInfo')}
+      </label>
+      <label className="flex items-center text-sm text-gray-600 mb-4">
+        <input
+          type="checkbox"
+          checked={settings.keepOnTopic}
+          onChange={e => onChange({ ...settings, keepOnTopic: e.target.checked })}
+          className="mr-2"
+        />
+        {t('safety.keepOnTopic')}
+      </label>
+
+      <p className="flex items-center text-xs font-bold text-gray-500 mb-2">
+        <ShieldAlert size={14} className="mr-1" /> {t('safety.alerts')}
+      </p>
+      {newestFirst.length === 0 ? (
+        <p className="text-sm text-gray-400">{t('safety.noAlerts')}</p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+          {newestFirst.map(alert => {
+            const style = CATEGORY_STYLES[alert.category];
+            return (
+              <div key={alert.id} className="rounded-xl border border-gray-100 px-3 py-2">
+                <div className="flex items-center justify-between mb-1">
+                  <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded-full ${style.className}`}>
+                    {t(style.label)}: {describeRule(alert)}
+                  </span>
+                  <span className="text-[10px] text-gray-400">
+                    {new Date(alert.timestamp).toLocaleString(locale, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                  </span>
+                </div>
+                {alert.excerpt && (
+                  <p className="text-sm text-gray-700">
+                    <span className="font-bold">{alert.speaker === 'child' ? childName : teacherName(alert.sessionId)}:</span> "{alert.excerpt}"
+                  </p>
+                )}
+                <p className="flex items-center text-[10px] text-gray-400 mt-1">
+                  {alert.action === 'pause' ? <Pause size={10} className="mr-1" /> : <Shuffle size={10} className="mr-1" />}
+                  {alert.action === 'pause' ? t('safety.paused') : t('safety.redirected')}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SafetyPanel;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { ScreenTimeLimits, SessionRecord, TimeWindow } from '../types';
+import { useI18n } from '../i18n';
+import { formatDuration } from '../utils/analytics';
+import { getMinutesUsedToday } from '../utils/screenTime';
+
+const NEW_WINDOW: TimeWindow = { start: '16:00', end: '18:00' };
+
+interface ScreenTimeSettingsProps {
+  limits: ScreenTimeLimits;
+  sessions: SessionRecord[];
+  childName: string;
+  onChange: (limits: ScreenTimeLimits) => void;
+}
+
+// Empty or zero means no limit
+const toMinutes = (value: string): number | undefined => {
+  const minutes = Math.round(Number(value));
+  return value.trim() && minutes > 0 ? minutes : undefined;
+};
+
+const ScreenTimeSettings: React.FC<ScreenTimeSettingsProps> = ({ limits, sessions, childName, onChange }) => {
+  const { t } = useI18n();
+
+  const updateWindow = (index: number, changes: Partial<TimeWindow>) => {
+    onChange({
+      ...limits,
+      allowedWindows: limits.allowedWindows.map((w, i) => i === index ? { ...w, ...changes } : w),
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 rounded-xl border-2 border-indigo-100 focus:outline-none focus:border-indigo-300 text-sm';
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 mb-3">{t('limits.intro', { name: childName })}</p>
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <label className="text-xs font-bold text-gray-500">
+          {t('limits.maxSession')}
+          <input
+            type="number"
+            min={1}
+            value={limits.maxSessionMinutes ?? ''}
+            onChange={e => onChange({ ...limits, maxSessionMinutes: toMinutes(e.target.value) })}
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+        <label className="text-xs font-bold text-gray-500">
+          {t('limits.daily')}
+          <input
+            type="number"
+            min={1}
+            value={limits.dailyMinutes ?? ''}
+            onChange={e => onChange({ ...limits, dailyMinutes: toMinutes(e.target.value) })}
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+      </div>
+
+      <p className="text-xs font-bold text-gray-500 mb-1">{t('limits.windows')}</p>
+      {limits.allowedWindows.length === 0 && <p className="text-xs text-gray-400 mb-2">{t('limits.anyTime')}</p>}
+      <div className="space-y-2 mb-2">
+        {limits.allowedWindows.map((window, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input type="time" value={window.start} onChange={e => updateWindow(i, { start: e.target.value })} className={inputClass} />
+            <span className="text-gray-400">-</span>
+            <input type="time" value={window.end} onChange={e => updateWindow(i, { end: e.target.value })} className={inputClass} />
+            <button
+              onClick={() => onChange({ ...limits, allowedWindows: limits.allowedWindows.filter((_, j) => j !== i) })}
+              className="p-2 text-gray-300 hover:text-red-500"
+              aria-label={t('limits.removeWindow')}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => onChange({ ...limits, allowedWindows: [...limits.allowedWindows, NEW_WINDOW] })}
+          className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-bold bg-indigo-50 text-indigo-500 hover:bg-indigo-100"
+        >
+          <Plus size={12} className="mr-1" /> {t('limits.addWindow')}
+        </button>
+        <span className="text-xs text-gray-400">{t('limits.usedToday', { minutes: formatDuration(getMinutesUsedToday(sessions)) })}</span>
+      </div>
+    </div>
+  );
+};
+
+export default ScreenTimeSettings;
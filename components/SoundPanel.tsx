@@ -0,0 +1,82 @@
+import React from 'react';
+import { Play } from 'lucide-react';
+import { SoundSettings, SoundThemeId } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+import { SOUND_THEMES, soundEngine } from '../utils/soundEffects';
+
+const THEME_LABELS: Record<SoundThemeId, MessageKey> = {
+  chimes: 'sounds.theme.chimes',
+  arcade: 'sounds.theme.arcade',
+  marimba: 'sounds.theme.marimba',
+};
+
+interface SoundPanelProps {
+  settings: SoundSettings;
+  onChange: (settings: SoundSettings) => void;
+}
+
+const SoundPanel: React.FC<SoundPanelProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+
+  // Picking a theme plays a sample of it, even while muted, so parents can hear the choice
+  const chooseTheme = (theme: SoundThemeId) => {
+    onChange({ ...settings, theme });
+    soundEngine.play('streak', { ...settings, theme, muted: false });
+  };
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 mb-3">{t('sounds.intro')}</p>
+
+      <p className="text-xs font-bold text-gray-500 mb-2">{t('sounds.theme')}</p>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {SOUND_THEMES.map(theme => (
+          <button
+            key={theme}
+            onClick={() => chooseTheme(theme)}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${
+              settings.theme === theme
+                ? 'bg-indigo-500 text-white border-indigo-500'
+                : 'bg-white text-gray-500 border-gray-200 hover:border-indigo-200'
+            }`}
+          >
+            {t(THEME_LABELS[theme])}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center text-sm text-gray-600 mb-2">
+        {t('sounds.volume')}
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={Math.round(settings.volume * 100)}
+          disabled={settings.muted}
+          onChange={e => onChange({ ...settings, volume: Number(e.target.value) / 100 })}
+          className="mx-2 flex-1 accent-indigo-500"
+        />
+        <span className="w-10 text-right text-xs text-gray-400">{Math.round(settings.volume * 100)}%</span>
+        <button
+          onClick={() => soundEngine.play('correct', settings)}
+          disabled={settings.muted}
+          className="ml-2 inline-flex items-center px-2 py-1 rounded-full text-[10px] font-bold bg-white text-indigo-500 border border-indigo-100 hover:border-indigo-300 disabled:opacity-40"
+        >
+          <Play size={10} className="mr-1" /> {t('sounds.preview')}
+        </button>
+      </label>
+      <label className="flex items-center text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={settings.muted}
+          onChange={e => onChange({ ...settings, muted: e.target.checked })}
+          className="mr-2"
+        />
+        {t('sounds.mute')}
+      </label>
+    </div>
+  );
+};
+
+export default SoundPanel;
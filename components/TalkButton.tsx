@@ -0,0 +1,64 @@
+import React, { useEffect } from 'react';
+import { Mic } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+interface TalkButtonProps {
+  isHeld: boolean;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const isSpaceBar = (e: KeyboardEvent) => e.code === 'Space' || e.key === ' ';
+
+/**
+ * Big hold-to-speak button for push-to-talk. Holding the space bar works too.
+ */
+const TalkButton: React.FC<TalkButtonProps> = ({ isHeld, onStart, onStop }) => {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isSpaceBar(e)) return;
+      e.preventDefault(); // Keep the page from scrolling or pressing a focused button
+      if (!e.repeat) onStart();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (!isSpaceBar(e)) return;
+      e.preventDefault();
+      onStop();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    // Letting go outside the window still ends the turn
+    window.addEventListener('blur', onStop);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', onStop);
+    };
+  }, [onStart, onStop]);
+
+  return (
+    <div className="flex flex-col items-center">
+      <button
+        onPointerDown={e => {
+          e.currentTarget.setPointerCapture(e.pointerId); // Keep the turn if a finger slides off
+          onStart();
+        }}
+        onPointerUp={onStop}
+        onPointerCancel={onStop}
+        onContextMenu={e => e.preventDefault()} // Long presses on touch screens open a menu otherwise
+        aria-pressed={isHeld}
+        className={`w-28 h-28 rounded-full flex flex-col items-center justify-center font-bold text-white shadow-lg select-none touch-none transition-all duration-100 ${
+          isHeld ? 'bg-orange-500 scale-110 ring-8 ring-orange-200' : 'bg-indigo-500 hover:bg-indigo-600'
+        }`}
+      >
+        <Mic size={36} />
+        <span className="text-xs mt-1">{isHeld ? t('talk.talking') : t('talk.hold')}</span>
+      </button>
+      <p className="text-indigo-900/50 text-xs mt-2">{t('talk.spaceBar')}</p>
+    </div>
+  );
+};
+
+export default TalkButton;
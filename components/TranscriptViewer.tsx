@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Search, Check, X } from 'lucide-react';
+import { ChildProfile, EvaluationRecord, TranscriptTurn } from '../types';
+import { useI18n } from '../i18n';
+import { getSessionTeacherName } from '../personas';
+
+// Wraps every match of the search query in a highlight
+const Highlight: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+  if (!query) return <>{text}</>;
+  const lower = text.toLowerCase();
+  const parts: React.ReactNode[] = [];
+  let start = 0;
+  let index = lower.indexOf(query);
+  while (index !== -1) {
+    parts.push(text.slice(start, index));
+    parts.push(<mark key={index} className="bg-yellow-200 rounded px-0.5">{text.slice(index, index + query.length)}</mark>);
+    start = index + query.length;
+    index = lower.indexOf(query, start);
+  }
+  parts.push(text.slice(start));
+  return <>{parts}</>;
+};
+
+interface TranscriptViewerProps {
+  profile: ChildProfile;
+  formatTopic?: (topic: string) => string;
+}
+
+const TranscriptViewer: React.FC<TranscriptViewerProps> = ({ profile, formatTopic = topic => topic }) => {
+  const { t, locale } = useI18n();
+  const [search, setSearch] = useState('');
+  const query = search.trim().toLowerCase();
+
+  const evaluations = new Map<string, EvaluationRecord>(profile.evaluations.map(e => [e.id, e]));
+  const sessionStarts = new Map<string, number>(profile.sessions.map(s => [s.id, s.startedAt]));
+
+  // Group matching turns by session, newest session first
+  const bySession = new Map<string, TranscriptTurn[]>();
+  for (const turn of profile.transcripts) {
+    if (query && !turn.text.toLowerCase().includes(query)) continue;
+    const turns = bySession.get(turn.sessionId) ?? [];
+    turns.push(turn);
+    bySession.set(turn.sessionId, turns);
+  }
+  const sessions = [...bySession.entries()].sort((a, b) => b[1][0].startedAt - a[1][0].startedAt);
+
+  return (
+    <div>
+      <div className="relative mb-3">
+        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder={t('transcripts.search')}
+          className="w-full pl-8 pr-3 py-2 rounded-xl border-2 border-indigo-100 text-sm focus:outline-none focus:border-indigo-300"
+        />
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-400">{query ? t('transcripts.noMatches') : t('transcripts.empty')}</p>
+      ) : (
+        <div className="space-y-4 max-h-96 overflow-y-auto pr-1">
+          {sessions.map(([sessionId, turns]) => (
+            <div key={sessionId}>
+              <p className="text-xs font-bold text-gray-400 uppercase mb-2">
+                {new Date(sessionStarts.get(sessionId) ?? turns[0].startedAt).toLocaleString(locale, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+              </p>
+              <div className="space-y-1.5">
+                {turns.map(turn => {
+                  const evaluation = turn.evaluationId ? evaluations.get(turn.evaluationId) : undefined;
+                  const isChild = turn.speaker === 'child';
+                  return (
+                    <div key={turn.id} className={`flex ${isChild ? 'justify-end' : 'justify-start'}`}>
+                      <div className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm ${isChild ? 'bg-indigo-500 text-white' : 'bg-sky-50 text-gray-700'}`}>
+                        <p className={`text-[10px] font-bold uppercase mb-0.5 ${isChild ? 'text-indigo-200' : 'text-sky-500'}`}>
+                          {isChild ? profile.name : getSessionTeacherName(profile, sessionId)}
+                        </p>
+                        <p><Highlight text={turn.text} query={query} /></p>
+                        {evaluation && (
+                          <span className={`mt-1 inline-flex items-center text-[10px] font-bold px-1.5 py-0.5 rounded-full ${evaluation.isCorrect ? 'bg-green-100 text-green-700' : 'bg-orange-100 text-orange-700'}`}>
+                            {evaluation.isCorrect ? <Check size={10} className="mr-0.5" /> : <X size={10} className="mr-0.5" />}
+                            {evaluation.isCorrect ? t('transcripts.correct') : t('transcripts.notQuite')}{evaluation.topic ? ` - ${formatTopic(evaluation.topic)}` : ''}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptViewer;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { VisualAid } from '../types';
+import { COLORS } from '../utils/visualAids';
+
+const DEFAULT_FILL = '#818cf8';
+const STROKE = '#312e81';
+
+// Points of a regular polygon, or a star when innerRadius is given. Centred in the 200x200 box by default.
+const polygonPoints = (sides: number, radius: number, innerRadius?: number, cx = 100, cy = 100): string => {
+  const count = innerRadius ? sides * 2 : sides;
+  return Array.from({ length: count }, (_, i) => {
+    const r = innerRadius && i % 2 ? innerRadius : radius;
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count;
+    return `${cx + r * Math.cos(angle)},${cy + r * Math.sin(angle)}`;
+  }).join(' ');
+};
+
+const Shape: React.FC<{ shape: string; color?: string }> = ({ shape, color }) => {
+  const props = { fill: color ? COLORS[color] : DEFAULT_FILL, stroke: STROKE, strokeWidth: 4, strokeLinejoin: 'round' as const };
+  switch (shape) {
+    case 'circle': return <circle cx={100} cy={100} r={80} {...props} />;
+    case 'square': return <rect x={25} y={25} width={150} height={150} {...props} />;
+    case 'triangle': return <polygon points="100,20 180,170 20,170" {...props} />;
+    case 'rectangle': return <rect x={15} y={55} width={170} height={90} {...props} />;
+    case 'oval': return <ellipse cx={100} cy={100} rx={85} ry={55} {...props} />;
+    case 'star': return <polygon points={polygonPoints(5, 85, 36)} {...props} />;
+    case 'heart': return <path d="M100 170 C40 120 10 80 45 45 C70 20 100 40 100 60 C100 40 130 20 155 45 C190 80 160 120 100 170 Z" {...props} />;
+    case 'diamond': return <polygon points="100,15 170,100 100,185 30,100" {...props} />;
+    case 'pentagon': return <polygon points={polygonPoints(5, 85)} {...props} />;
+    case 'hexagon': return <polygon points={polygonPoints(6, 85)} {...props} />;
+    default: return null;
+  }
+};
+
+// One countable item drawn in a 40x40 cell
+const CountItem: React.FC<{ item: string; x: number; y: number }> = ({ item, x, y }) => {
+  switch (item) {
+    case 'apple':
+      return (
+        <g transform={`translate(${x},${y})`}>
+          <circle cx={20} cy={23} r={13} fill="#ef4444" />
+          <rect x={19} y={5} width={2.5} height={8} rx={1} fill="#92400e" />
+          <ellipse cx={26} cy={9} rx={5} ry={2.5} fill="#22c55e" />
+        </g>
+      );
+    case 'star':
+      return <polygon points={polygonPoints(5, 16, 7, x + 20, y + 21)} fill="#facc15" stroke="#ca8a04" strokeWidth={1.5} />;
+    case 'ball':
+      return (
+        <g transform={`translate(${x},${y})`}>
+          <circle cx={20} cy={20} r={14} fill="#3b82f6" />
+          <path d="M8 15 Q20 24 32 15" fill="none" stroke="white" strokeWidth={2} />
+        </g>
+      );
+    default:
+      return <circle cx={x + 20} cy={y + 20} r={12} fill={DEFAULT_FILL} />;
+  }
+};
+
+const CLOCK_NUMBERS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+const Clock: React.FC<{ hour: number; minute: number }> = ({ hour, minute }) => {
+  const hourAngle = ((hour % 12) + minute / 60) * 30;
+  const minuteAngle = minute * 6;
+  return (
+    <>
+      <circle cx={100} cy={100} r={88} fill="white" stroke={STROKE} strokeWidth={6} />
+      {CLOCK_NUMBERS.map(n => {
+        const angle = (n * 30 * Math.PI) / 180;
+        return (
+          <text key={n} x={100 + 70 * Math.sin(angle)} y={100 - 70 * Math.cos(angle)} textAnchor="middle" dominantBaseline="central" fontSize={18} fontWeight="bold" fill={STROKE}>
+            {n}
+          </text>
+        );
+      })}
+      <line x1={100} y1={100} x2={100} y2={55} stroke={STROKE} strokeWidth={8} strokeLinecap="round" transform={`rotate(${hourAngle} 100 100)`} />
+      <line x1={100} y1={100} x2={100} y2={32} stroke="#ec4899" strokeWidth={5} strokeLinecap="round" transform={`rotate(${minuteAngle} 100 100)`} />
+      <circle cx={100} cy={100} r={6} fill={STROKE} />
+    </>
+  );
+};
+
+interface VisualAidDisplayProps {
+  aid: VisualAid;
+}
+
+/**
+ * Draws the picture Mimi asked for. Pictures never include the answer as text.
+ */
+const VisualAidDisplay: React.FC<VisualAidDisplayProps> = ({ aid }) => {
+  let content: React.ReactNode;
+  let viewBox = '0 0 200 200';
+
+  switch (aid.kind) {
+    case 'shape':
+      content = <Shape shape={aid.shape} color={aid.color} />;
+      break;
+    case 'color':
+      content = <circle cx={100} cy={100} r={80} fill={COLORS[aid.color]} stroke={aid.color === 'white' ? '#d1d5db' : 'none'} strokeWidth={4} />;
+      break;
+    case 'clock':
+      content = <Clock hour={aid.hour} minute={aid.minute} />;
+      break;
+    case 'count': {
+      // Rows of five make groups easy to count
+      const columns = Math.max(1, Math.min(aid.count, 5));
+      const rows = Math.max(1, Math.ceil(aid.count / 5));
+      viewBox = `0 0 ${columns * 40} ${rows * 40}`;
+      content = aid.count === 0
+        ? <rect x={4} y={4} width={32} height={32} rx={8} fill="none" stroke="#d1d5db" strokeWidth={2} strokeDasharray="4 4" />
+        : Array.from({ length: aid.count }, (_, i) => <CountItem key={i} item={aid.item} x={(i % 5) * 40} y={Math.floor(i / 5) * 40} />);
+      break;
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-3xl shadow-lg border-4 border-white p-4">
+      <svg viewBox={viewBox} className="w-40 h-40 sm:w-48 sm:h-48" role="img">
+        {content}
+      </svg>
+    </div>
+  );
+};
+
+export default VisualAidDisplay;
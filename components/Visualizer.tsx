@@ -1,44 +1,54 @@
 import React from 'react';
+import { useI18n } from '../i18n';
+import { FaceExpression, ListeningMode, Persona } from '../types';
+import { MouthShape } from '../utils/lipSync';
+import PersonaFace from './PersonaFace';
 
 interface VisualizerProps {
+  persona: Persona;
   isActive: boolean;
-  isSpeaking: boolean; // Is Mimi speaking?
+  isSpeaking: boolean; // Is the teacher speaking?
   volume: number; // User mic volume (0-1)
+  isChildSpeaking?: boolean; // Voice activity detected on the mic, or the talk button held
+  listeningMode?: ListeningMode;
+  mouth?: MouthShape; // The teacher's voice as it plays, for lip sync
+  expression?: FaceExpression;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ isActive, isSpeaking, volume }) => {
+const Visualizer: React.FC<VisualizerProps> = ({ persona, isActive, isSpeaking, volume, isChildSpeaking = false, listeningMode = 'alwaysOn', mouth, expression }) => {
   // Determine the scale of the user's "listening" circle based on mic volume
-  // Base scale is 1, max is 1.5
-  const micScale = 1 + volume * 0.5;
+  // Base scale is 1, max is 1.5. In push-to-talk only audio that is sent counts.
+  const isPushToTalk = listeningMode === 'pushToTalk';
+  const micScale = isPushToTalk && !isChildSpeaking ? 1 : 1 + volume * 0.5;
+  const { t } = useI18n();
 
   return (
     <div className="relative w-64 h-64 flex items-center justify-center">
       
       {/* Outer Ripple (Active) */}
       {isActive && (
-        <div className={`absolute w-full h-full rounded-full bg-sky-200 opacity-50 ${isSpeaking ? 'animate-ping' : ''}`} style={{ animationDuration: '3s' }}></div>
+        <div className={`absolute w-full h-full rounded-full ${persona.theme.ripple} opacity-50 ${isSpeaking ? 'animate-ping' : ''}`} style={{ animationDuration: '3s' }}></div>
+      )}
+
+      {/* Child Speaking Ring */}
+      {isActive && isChildSpeaking && (
+        <div className="absolute w-56 h-56 rounded-full border-4 border-orange-300 animate-pulse"></div>
       )}
 
       {/* Second Ripple */}
       {isActive && (
-        <div className={`absolute w-48 h-48 rounded-full bg-sky-300 opacity-60 ${isSpeaking ? 'animate-pulse' : ''}`}></div>
+        <div
+          className={`absolute w-48 h-48 rounded-full ${persona.theme.halo} opacity-60 transition-transform duration-75 ${isSpeaking ? 'animate-pulse' : ''}`}
+          style={{ transform: `scale(${1 + (mouth?.level ?? 0) * 0.15})` }}
+        ></div>
       )}
 
       {/* Main Avatar Container */}
       <div 
-        className="relative z-10 w-40 h-40 bg-white rounded-full shadow-xl flex items-center justify-center border-4 border-sky-400 overflow-hidden transition-transform duration-100 ease-out"
+        className={`relative z-10 w-40 h-40 bg-white rounded-full shadow-xl flex items-center justify-center border-4 ${persona.theme.border} overflow-hidden transition-transform duration-100 ease-out`}
         style={{ transform: !isSpeaking ? `scale(${micScale})` : 'scale(1)' }}
       >
-        {/* Simple "Mimi" Face */}
-        <div className="flex flex-col items-center justify-center space-y-2 animate-float">
-            {/* Eyes */}
-            <div className="flex space-x-4">
-                <div className={`w-4 h-4 bg-gray-800 rounded-full transition-all duration-300 ${isSpeaking ? 'h-5' : 'h-4'}`}></div>
-                <div className={`w-4 h-4 bg-gray-800 rounded-full transition-all duration-300 ${isSpeaking ? 'h-5' : 'h-4'}`}></div>
-            </div>
-            {/* Mouth */}
-            <div className={`w-6 border-b-4 border-gray-800 rounded-full transition-all duration-200 ${isSpeaking ? 'h-3 w-8 border-4 border-transparent bg-gray-800' : 'h-2'}`}></div>
-        </div>
+        <PersonaFace theme={persona.theme} isSpeaking={isSpeaking} mouth={mouth} expression={expression} />
       </div>
 
       {/* Status Badge */}
@@ -46,16 +56,24 @@ const Visualizer: React.FC<VisualizerProps> = ({ isActive, isSpeaking, volume })
         {isActive ? (
            isSpeaking ? (
              <span className="bg-green-400 text-white px-4 py-1 rounded-full text-lg font-bold shadow-sm animate-bounce">
-               Mimi is talking...
+               {t('visualizer.talking', { teacher: persona.name })}
+             </span>
+           ) : isChildSpeaking ? (
+             <span className="bg-orange-400 text-white px-4 py-1 rounded-full text-lg font-bold shadow-sm">
+               {t('visualizer.hearing')}
+             </span>
+           ) : isPushToTalk ? (
+             <span className="bg-indigo-400 text-white px-4 py-1 rounded-full text-lg font-bold shadow-sm">
+               {t('visualizer.holdToTalk')}
              </span>
            ) : (
              <span className="bg-orange-300 text-white px-4 py-1 rounded-full text-lg font-bold shadow-sm">
-               Listening to you...
+               {t('visualizer.listening')}
              </span>
            )
         ) : (
             <span className="bg-gray-300 text-gray-500 px-4 py-1 rounded-full text-sm font-bold">
-               Sleeping
+               {t('visualizer.sleeping')}
             </span>
         )}
       </div>
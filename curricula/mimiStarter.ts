@@ -0,0 +1,63 @@
+import { CurriculumPack } from '../types';
+
+/**
+ * The built-in curriculum Mimi ships with. Level ids match the difficulty
+ * names saved in older progress, so existing children keep their level.
+ */
+export const MIMI_STARTER_PACK: CurriculumPack = {
+  format: 'mimi-curriculum',
+  version: 1,
+  id: 'mimi-starter',
+  name: 'Mimi Starter',
+  description: 'Colors, animals, numbers and more for ages 4-10.',
+  author: 'Mimi',
+  levels: [
+    {
+      id: 'Easy',
+      name: 'Easy',
+      localizedNames: { es: 'Fácil', hi: 'आसान' },
+      ages: { min: 4, max: 5 },
+      style: 'Ultra-short sentences. Very simple vocabulary.',
+      hintStrategy: 'Give the answer directly or the first sound (e.g., "It starts with B...").',
+      vocabulary: { minSentenceWords: 5, maxSentenceWords: 8 },
+      topics: [
+        { id: 'colors', name: 'Colors', localizedNames: { es: 'Colores', hi: 'रंग' }, description: 'Basic colors', exampleQuestions: ['What color is a banana?', 'What color is the grass?'] },
+        { id: 'animals', name: 'Animals', localizedNames: { es: 'Animales', hi: 'जानवर' }, description: 'Animal sounds', exampleQuestions: ['What does a cat say?', 'Which animal says moo?'] },
+        { id: 'numbers', name: 'Numbers', localizedNames: { es: 'Números', hi: 'संख्याएँ' }, description: 'Counting from 1 to 5', exampleQuestions: ['What comes after two?', 'How many ears do you have?'] },
+        { id: 'fruits', name: 'Fruits', localizedNames: { es: 'Frutas', hi: 'फल' }, description: 'Simple fruits and foods', exampleQuestions: ['Which fruit is red and round?', 'What fruit do monkeys love?'] },
+      ],
+    },
+    {
+      id: 'Medium',
+      name: 'Medium',
+      localizedNames: { es: 'Medio', hi: 'मध्यम' },
+      ages: { min: 6, max: 7 },
+      style: 'Short sentences. Conversational but simple.',
+      hintStrategy: 'Describe the object simply (e.g., "It is yellow and comes from a chicken").',
+      vocabulary: { minSentenceWords: 8, maxSentenceWords: 12 },
+      topics: [
+        { id: 'shapes', name: 'Shapes', localizedNames: { es: 'Formas', hi: 'आकार' }, description: 'Circles, squares, triangles and more', exampleQuestions: ['What shape has three sides?', 'What shape is a wheel?'] },
+        { id: 'math', name: 'Math', localizedNames: { es: 'Matemáticas', hi: 'गणित' }, description: 'Simple addition (1+1, 2+2)', exampleQuestions: ['What is two plus two?', 'If you have one apple and get one more, how many do you have?'] },
+        { id: 'weather', name: 'Weather', localizedNames: { es: 'El tiempo', hi: 'मौसम' }, description: 'Sun, rain, snow and wind', exampleQuestions: ['What falls from the sky when it rains?', 'Is it hot or cold when it snows?'] },
+        { id: 'days', name: 'Days', localizedNames: { es: 'Días', hi: 'दिन' }, description: 'Days of the week', exampleQuestions: ['What day comes after Monday?', 'How many days are in a week?'] },
+        { id: 'opposites', name: 'Opposites', localizedNames: { es: 'Opuestos', hi: 'विलोम' }, description: 'Opposites like hot and cold', exampleQuestions: ['What is the opposite of hot?', 'What is the opposite of big?'] },
+      ],
+    },
+    {
+      id: 'Hard',
+      name: 'Hard',
+      localizedNames: { es: 'Difícil', hi: 'कठिन' },
+      ages: { min: 8, max: 10 },
+      style: 'Natural sentences.',
+      hintStrategy: 'Ask a guiding question to help them figure it out (e.g., "What do plants drink when they are thirsty?").',
+      vocabulary: { minSentenceWords: 10, maxSentenceWords: 15 },
+      topics: [
+        { id: 'science', name: 'Science', localizedNames: { es: 'Ciencias', hi: 'विज्ञान' }, description: 'Basic science like plants and rain', exampleQuestions: ['What do plants need to grow?', 'Where does rain come from?'] },
+        { id: 'geography', name: 'Geography', localizedNames: { es: 'Geografía', hi: 'भूगोल' }, description: 'Continents and oceans', exampleQuestions: ['What is the biggest ocean?', 'Which continent do kangaroos live on?'] },
+        { id: 'time', name: 'Time', localizedNames: { es: 'La hora', hi: 'समय' }, description: 'Telling time', exampleQuestions: ['If the big hand is on twelve and the small hand is on three, what time is it?', 'How many minutes are in an hour?'] },
+        { id: 'space', name: 'Space', localizedNames: { es: 'El espacio', hi: 'अंतरिक्ष' }, description: 'The sun, moon and planets', exampleQuestions: ['What is the closest star to Earth?', 'Which planet do we live on?'] },
+        { id: 'math', name: 'Math', localizedNames: { es: 'Matemáticas', hi: 'गणित' }, description: 'Subtraction', exampleQuestions: ['What is ten minus four?', 'If you have seven sweets and eat two, how many are left?'] },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CurriculumPack } from '../types';
+import { MIMI_STARTER_PACK } from '../curricula/mimiStarter';
+import { validateCurriculumPack } from '../utils/curriculum';
+
+const STORAGE_KEY = 'mimi_curricula_v1';
+
+export const BUILT_IN_PACKS: CurriculumPack[] = [MIMI_STARTER_PACK];
+export const DEFAULT_CURRICULUM_ID = MIMI_STARTER_PACK.id;
+
+const loadImportedPacks = (): CurriculumPack[] => {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return [];
+    // Re-validate in case a pack was saved by an older version of the app
+    return (JSON.parse(saved) as unknown[])
+        .map(data => validateCurriculumPack(data).pack)
+        .filter((pack): pack is CurriculumPack => !!pack);
+};
+
+export const useCurricula = () => {
+  const [importedPacks, setImportedPacks] = useState<CurriculumPack[]>([]);
+  const [hasLoaded, setHasLoaded] = useState(false);
+
+  // Load imported packs on mount
+  useEffect(() => {
+      try {
+          setImportedPacks(loadImportedPacks());
+      } catch (e) {
+          console.error("Failed to load curriculum packs", e);
+      }
+      setHasLoaded(true);
+  }, []);
+
+  // Save imported packs whenever they change
+  useEffect(() => {
+      if (hasLoaded) {
+          localStorage.setItem(STORAGE_KEY, JSON.stringify(importedPacks));
+      }
+  }, [importedPacks, hasLoaded]);
+
+  /**
+   * Validates and stores a pack from JSON text. Returns the problems found,
+   * or an empty list if the pack was imported. A pack with the same id replaces the old one.
+   */
+  const importPack = useCallback((json: string): string[] => {
+      let data: unknown;
+      try {
+          data = JSON.parse(json);
+      } catch {
+          return ['The file is not valid JSON.'];
+      }
+      const { pack, errors } = validateCurriculumPack(data);
+      if (!pack) return errors;
+      if (BUILT_IN_PACKS.some(p => p.id === pack.id)) {
+          return [`"${pack.id}" is the id of a built-in pack. Please choose another id.`];
+      }
+      setImportedPacks(prev => [...prev.filter(p => p.id !== pack.id), pack]);
+      return [];
+  }, []);
+
+  const removePack = useCallback((id: string) => {
+      setImportedPacks(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  const packs = [...BUILT_IN_PACKS, ...importedPacks];
+
+  // Falls back to the built-in pack if the chosen one was removed
+  const getPack = (id: string): CurriculumPack =>
+      packs.find(p => p.id === id) ?? MIMI_STARTER_PACK;
+
+  return {
+    packs,
+    importedPacks,
+    importPack,
+    removePack,
+    getPack
+  };
+};
@@ -1,8 +1,42 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from '@google/genai';
-import { ConnectionState } from '../types';
-import { createBlob, decode, decodeAudioData } from '../utils/audio';
-import { playFeedbackSound } from '../utils/soundEffects';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { LiveServerMessage, Modality, FunctionDeclaration, Type } from '@google/genai';
+import { AnswerChoice, ConnectionState, CurriculumPack, FaceExpression, EvaluationRecord, SafetyAlert, SessionRecord, SessionRecording, SessionSettings, TranscriptTurn, VisualAid } from '../types';
+import { createPcmBlob, decode, decodeAudioData } from '../utils/audio';
+import { CaptureChunk, createCaptureNode, INPUT_SAMPLE_RATE, loadCaptureWorklet } from '../utils/captureWorklet';
+import { createVoiceGate } from '../utils/vad';
+import { soundEngine, STREAK_LENGTH } from '../utils/soundEffects';
+import { createId } from '../utils/ids';
+import { createSessionRecorder, SessionRecorder } from '../utils/recording';
+import { CLOSED_MOUTH, createLipSyncAnalyser, createMouthReader, MouthShape } from '../utils/lipSync';
+import { COLOR_NAMES, COUNT_ITEMS, MAX_COUNT, parseVisualAid, SHAPES } from '../utils/visualAids';
+import { MAX_CHOICES, MIN_CHOICES, parseAnswerChoices } from '../utils/answerChoices';
+import { isPromotion } from '../utils/adaptive';
+import { getCurriculumLevel, getLevelIds, getLocalizedName, localizeTopic, normalizeTopic } from '../utils/curriculum';
+import { checkSafety, DRIFT_THRESHOLD, isOffTopic, redactPersonalInfo } from '../utils/safety';
+import { PROMPTS, PromptStrings } from '../i18n/prompts';
+import { LiveSession, LiveTransport } from '../services/liveTransport';
+import { createToolRegistry, defineTool, RegisteredTool, ToolArguments } from '../services/liveTools';
+import { createGeminiTransport } from '../services/geminiTransport';
+
+const defaultTransport = createGeminiTransport();
+
+// Reconnection backoff: 1s, 2s, 4s, 8s, 16s, then give up
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+const RECENT_TURNS_KEPT = 6;
+const OUTPUT_SAMPLE_RATE = 24000;
+// Push-to-talk keeps sending for 200ms after release so the last word isn't clipped
+const RELEASE_TAIL_CHUNKS = 2;
+// A finished lesson closes this long after Mimi's wrap-up, or after the timeout if it never comes
+const LESSON_END_PAUSE_MS = 1000;
+const WRAP_UP_TIMEOUT_MS = 30000;
+// Mimi's mouth is measured 20 times a second while she talks
+const LIP_SYNC_INTERVAL_MS = 50;
+// How long the face celebrates or encourages after an answer
+const REACTION_MS = 3000;
+// How often a running class is saved, so it still counts toward screen time if the tab is closed
+const SESSION_HEARTBEAT_MS = 60000;
 
 // Tool definition for reporting correctness
 const evaluationTool: FunctionDeclaration = {
@@ -17,93 +51,472 @@ const evaluationTool: FunctionDeclaration = {
       },
       topic: {
         type: Type.STRING,
-        description: 'The specific topic (1-2 words) of the question just answered (e.g., "Colors", "Math", "Animals").',
+        description: 'The specific topic (1-2 words) of the question just answered, in English even when speaking another language (e.g., "Colors", "Math", "Animals").',
       },
     },
     required: ['isCorrect'],
   },
 };
 
-// Dynamic System Instructions based on difficulty and optional focus topic
-const GET_SYSTEM_INSTRUCTION = (difficulty: string, focusTopic?: string) => `
-You are "Mimi", a friendly, caring AI teacher designed specially for small children.
-Your current difficulty setting is: ${difficulty.toUpperCase()}.
-${focusTopic ? `CURRENT LESSON TOPIC: "${focusTopic}".` : ''}
-
-CORE RULES (ALL LEVELS):
-1. Speak softly, kindly, and encouragingly.
-2. Never mention that you are an AI.
-3. Always praise the child gently, even if the answer is wrong.
-4. IMPORTANT: When the child answers a question, you MUST FIRST call the tool "reportEvaluation".
-   - Set "isCorrect" to true or false.
-   - Set "topic" to ${focusTopic ? `"${focusTopic}"` : 'the subject of the question (e.g., "Colors", "Counting")'}.
-   - Call the tool IMMEDIATELY after understanding the child's answer.
-   - AFTER calling the tool, speak your verbal response (praise/hint + next question).
-5. Always ask the next simple question after answering the child.
-6. NO text formatting, no emojis, no long explanations.
-7. YOUR OUTPUT MUST BE SPOKEN AUDIO ONLY.
-${focusTopic ? `8. RESTRICTION: You must ONLY ask questions related to "${focusTopic}". Do not change the subject.` : ''}
-
-LEVEL SPECIFIC GUIDELINES:
-
-${difficulty === 'Easy' ? `
-TARGET: Ages 4-5
-TOPICS: Basic Colors, Animal Sounds, Counting (1-5), Simple Fruits/Foods.
-STYLE: Ultra-short sentences (5-8 words). Very simple vocabulary.
-HINTS: Give the answer directly or the first sound (e.g., "It starts with B...").
-` : difficulty === 'Medium' ? `
-TARGET: Ages 6-7
-TOPICS: Shapes, Simple Addition (1+1, 2+2), Days of the Week, Weather, Opposites (Hot/Cold).
-STYLE: Short sentences (8-12 words). Conversational but simple.
-HINTS: Describe the object simply (e.g., "It is yellow and comes from a chicken").
-` : `
-TARGET: Ages 8-10
-TOPICS: Subtraction, Basic Science (Plants, Rain), Geography (Continents/Oceans), Telling Time.
-STYLE: Natural sentences (10-15 words).
-HINTS: Ask a guiding question to help them figure it out (e.g., "What do plants drink when they are thirsty?").
-`}
-
-EXAMPLE FLOW:
-Teacher: "Hi sweetie, ready? Here is your first question. What color is a banana?"
-Child answers.
-[Tool Call: reportEvaluation(isCorrect: true, topic: "${focusTopic || 'Colors'}")]
-Teacher: "Great job! A banana is yellow. Now, can you tell me what a cat says?"
-
-GOAL: Make the child feel safe, happy, and confident.
+interface EvaluationArgs {
+  isCorrect: boolean;
+  topic?: string;
+}
+
+const parseEvaluationArgs = (args: Record<string, unknown>): ToolArguments<EvaluationArgs> => {
+  if (typeof args.isCorrect !== 'boolean') return { error: '"isCorrect" must be true or false.' };
+  const topic = typeof args.topic === 'string' && args.topic.trim() ? args.topic.trim() : undefined;
+  return { args: { isCorrect: args.isCorrect, topic } };
+};
+
+// Tools that put a picture on screen while Mimi asks a question; cleared by reportEvaluation
+const showShapeTool: FunctionDeclaration = {
+  name: 'showShape',
+  description: 'Show a picture of a shape on the screen. Call it right before asking a question about that shape.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      shape: { type: Type.STRING, enum: [...SHAPES], description: 'The shape to draw.' },
+      color: { type: Type.STRING, enum: COLOR_NAMES, description: 'Optional fill color.' },
+    },
+    required: ['shape'],
+  },
+};
+
+const showCountTool: FunctionDeclaration = {
+  name: 'showCount',
+  description: 'Show a number of objects on the screen for the child to count. Call it right before asking a counting question.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      count: { type: Type.INTEGER, description: `How many objects to show (0-${MAX_COUNT}).` },
+      item: { type: Type.STRING, enum: [...COUNT_ITEMS], description: 'What to draw. Defaults to dots.' },
+    },
+    required: ['count'],
+  },
+};
+
+const showColorTool: FunctionDeclaration = {
+  name: 'showColor',
+  description: 'Show a big patch of a color on the screen. Call it right before asking the child to name the color.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      color: { type: Type.STRING, enum: COLOR_NAMES, description: 'The color to show.' },
+    },
+    required: ['color'],
+  },
+};
+
+const showClockTool: FunctionDeclaration = {
+  name: 'showClock',
+  description: 'Show a clock face with its hands set to a time. Call it right before asking the child what time it shows.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      hour: { type: Type.INTEGER, description: 'Hour, 1-12.' },
+      minute: { type: Type.INTEGER, description: 'Minute, 0-59. Defaults to 0.' },
+    },
+    required: ['hour'],
+  },
+};
+
+const VISUAL_AID_TOOLS = [showShapeTool, showCountTool, showColorTool, showClockTool];
+
+// Answer buttons for children who tap instead of speaking; only offered in tap-to-answer mode
+const offerChoicesTool: FunctionDeclaration = {
+  name: 'offerChoices',
+  description: 'Show answer buttons the child can tap. Call it right before asking a question, with exactly one right answer among the choices.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      choices: {
+        type: Type.ARRAY,
+        description: `${MIN_CHOICES} to ${MAX_CHOICES} possible answers, in a mixed order.`,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING, description: 'The answer, in 1-3 words, in the language of the lesson.' },
+            emoji: { type: Type.STRING, description: 'Optional single emoji picturing the answer.' },
+            color: { type: Type.STRING, enum: COLOR_NAMES, description: 'Optional color swatch, for questions about colors.' },
+          },
+          required: ['text'],
+        },
+      },
+    },
+    required: ['choices'],
+  },
+};
+
+// Age target, topics and style for a single curriculum level
+const GET_LEVEL_GUIDELINES = (prompt: PromptStrings, curriculum: CurriculumPack, difficulty: string) => {
+  const level = getCurriculumLevel(curriculum, difficulty);
+  const { minSentenceWords, maxSentenceWords, notes, avoidWords } = level.vocabulary;
+  const labels = prompt.guidelines;
+  return `
+${labels.target(level.ages.min, level.ages.max)}
+${labels.topics}: ${level.topics.map(t => `${t.name} (${t.description})`).join(', ')}.
+${labels.style}: ${level.style} ${labels.sentenceLength(minSentenceWords, maxSentenceWords)}
+${notes ? `${labels.vocabulary}: ${notes}\n` : ''}${avoidWords?.length ? `${labels.avoidWords}: ${avoidWords.join(', ')}.\n` : ''}${labels.hints}: ${level.hintStrategy}
+${labels.exampleQuestions}:
+${level.topics.map(t => `- ${t.name}: ${t.exampleQuestions.map(q => `"${q}"`).join(' ')}`).join('\n')}
+`;
+};
+
+// Sent mid-session when adaptive difficulty moves the child to another level
+const GET_DIFFICULTY_UPDATE = ({ curriculum, language }: SessionSettings, difficulty: string, promoted: boolean) => {
+  const prompt = PROMPTS[language];
+  const level = getCurriculumLevel(curriculum, difficulty);
+  return `
+${prompt.difficultyUpdate(getLocalizedName(level, language).toUpperCase(), promoted)}
+${GET_LEVEL_GUIDELINES(prompt, curriculum, difficulty)}`;
+};
+
+// Appended to the system instruction when a dropped session restarts without a resumption handle
+const GET_RESUME_INSTRUCTION = (prompt: PromptStrings, recentTurns: TranscriptTurn[]) => `
+${prompt.resume}
+${recentTurns.length ? `${prompt.lastSaid}\n${recentTurns.map(t => `${t.speaker === 'child' ? prompt.childLabel : prompt.teacherLabel}: ${t.text}`).join('\n')}` : ''}
 `;
 
+// Dynamic System Instructions in the child's language, based on the chosen teacher, difficulty, optional focus topic and the child's details
+const GET_SYSTEM_INSTRUCTION = ({ curriculum, persona, difficulty, focusTopic, childName, childAge, language, secondLanguage, tapToAnswer, lessonLength }: SessionSettings) => {
+  const prompt = PROMPTS[language];
+  const level = getCurriculumLevel(curriculum, difficulty);
+  const exampleTopic = level.topics.find(t => t.name === focusTopic) ?? level.topics[0];
+  const topicNames = level.topics.map(t => `"${t.name}"`).join(', ');
+  return `
+${prompt.intro(persona.name)}
+${prompt.persona(persona.personality[language], persona.greetingStyle[language])}
+${prompt.difficulty(getLocalizedName(level, language).toUpperCase())}
+${focusTopic ? prompt.lessonTopic(focusTopic) : ''}
+${childName ? prompt.child(childName, childAge) : ''}
+${prompt.speakLanguage}
+${secondLanguage && secondLanguage !== language ? prompt.bilingual(prompt.languageNames[secondLanguage]) : ''}
+
+${prompt.coreRules(prompt.topicArgument(focusTopic, topicNames), focusTopic, lessonLength)}
+
+${prompt.visualAids}
+${tapToAnswer ? `\n${prompt.tapToAnswer}\n` : ''}
+${prompt.levelHeading}
+
+${GET_LEVEL_GUIDELINES(prompt, curriculum, difficulty)}
+
+${prompt.exampleFlow(childName ?? '', exampleTopic.exampleQuestions[0] ?? '', exampleTopic.name, exampleTopic.exampleQuestions[1] ?? '')}
+
+${prompt.goal}
+`;
+};
+
 interface UseGeminiLiveProps {
-    onEvaluation?: (isCorrect: boolean, topic?: string) => void;
+    onEvaluation?: (record: EvaluationRecord) => void;
+    onSessionStart?: (session: SessionRecord) => void;
+    onSessionEnd?: (session: SessionRecord) => void;
+    onSessionUpdate?: (session: SessionRecord) => void; // Every minute while the class runs, with lastActiveAt moved on
+    onTranscript?: (turn: TranscriptTurn) => void;
+    onSafetyAlert?: (alert: SafetyAlert) => void;
+    onRecording?: (recording: SessionRecording) => void; // Only when the settings ask for recording
+    transport?: LiveTransport; // Defaults to the Gemini Live API
+    tools?: RegisteredTool[]; // Extra tools for the model; picked up when a session (re)connects
+}
+
+// Answers given so far in a lesson with a fixed number of questions
+export interface LessonProgress {
+  total: number;
+  answered: number;
+  correct: number;
 }
 
-export const useGeminiLive = ({ onEvaluation }: UseGeminiLiveProps = {}) => {
+export const useGeminiLive = ({ onEvaluation, onSessionStart, onSessionEnd, onSessionUpdate, onTranscript, onSafetyAlert, onRecording, transport = defaultTransport, tools = [] }: UseGeminiLiveProps = {}) => {
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [isMimiSpeaking, setIsMimiSpeaking] = useState(false);
   const [volume, setVolume] = useState(0); // For visualizer
-
-  // Refs for Audio Contexts and Processor
+  const [isChildSpeaking, setIsChildSpeaking] = useState(false);
+  // Picture requested by one of the show* tools, until the answer is evaluated
+  const [visualAid, setVisualAid] = useState<VisualAid | null>(null);
+  // Answers the child can tap, from offerChoices, until one is tapped or the answer is evaluated
+  const [answerChoices, setAnswerChoices] = useState<AnswerChoice[] | null>(null);
+  const [lessonProgress, setLessonProgress] = useState<LessonProgress | null>(null);
+  // Loudness and rough mouth shape of Mimi's voice as it plays
+  const [mimiMouth, setMimiMouth] = useState<MouthShape>(CLOSED_MOUTH);
+  // Face shown for a moment after an answer is evaluated
+  const [reaction, setReaction] = useState<FaceExpression | null>(null);
+
+  // Refs for Audio Contexts and Capture Worklet
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
   const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
+  // Voice activity detection: only the child's speech is streamed to the session
+  const voiceGateRef = useRef(createVoiceGate());
+  const isChildSpeakingRef = useRef(false);
+  // Push-to-talk: whether the button is held, and chunks still to send after it was let go
+  const isTalkHeldRef = useRef(false);
+  const talkTailRef = useRef(0);
   
   // Refs for Playback timing
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // Mimi's audio plays through this analyser for lip sync
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const lipSyncTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const reactionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Right answers in a row this session, for the streak sound
+  const streakRef = useRef(0);
   
   // Ref for the session promise to avoid stale closures
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-
-  // Ref for callback to avoid dependency issues in connect
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+
+  // Settings of the current session; difficulty may change mid-session
+  const settingsRef = useRef<SessionSettings | null>(null);
+  // Record of the session once it has opened, closed off on disconnect
+  const sessionRecordRef = useRef<SessionRecord | null>(null);
+  const heartbeatTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Transcript turn still receiving text; emitted once the other speaker starts or the turn completes
+  const pendingTurnRef = useRef<TranscriptTurn | null>(null);
+  // Last few finished turns, used to brief Mimi if a session has to restart without resumption
+  const recentTurnsRef = useRef<TranscriptTurn[]>([]);
+  // Answers in a row that Mimi reported on a topic other than the chosen one
+  const offTopicCountRef = useRef(0);
+  // Records the class audio when the parent has turned recording on
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // Lessons: answers so far, and how far Mimi is with the wrap-up after the last one
+  const lessonRef = useRef<LessonProgress | null>(null);
+  const wrapUpRef = useRef<'none' | 'waiting' | 'speaking'>('none');
+  const lessonEndTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // When class must end, if the wind-down came before the session had opened
+  const pendingWindDownRef = useRef<number | null>(null);
+
+  // Refs for reconnection: one logical session can span several connections
+  const sessionIdRef = useRef('');
+  const attemptRef = useRef(0);
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const resumeHandleRef = useRef<string | null>(null);
+
+  const transportRef = useRef(transport);
+  transportRef.current = transport;
+  const toolsRef = useRef(tools);
+  toolsRef.current = tools;
+
+  // Refs for callbacks to avoid dependency issues in connect
   const onEvaluationRef = useRef(onEvaluation);
+  const onSessionStartRef = useRef(onSessionStart);
+  const onSessionEndRef = useRef(onSessionEnd);
+  const onSessionUpdateRef = useRef(onSessionUpdate);
+  const onTranscriptRef = useRef(onTranscript);
+  const onSafetyAlertRef = useRef(onSafetyAlert);
+  const onRecordingRef = useRef(onRecording);
+  // Lets safety checks pause the class; disconnect is defined after the helpers it uses
+  const disconnectRef = useRef<() => void>(() => {});
   
-  // Update ref when prop changes
+  // Update refs when props change
   useEffect(() => {
     onEvaluationRef.current = onEvaluation;
-  }, [onEvaluation]);
+    onSessionStartRef.current = onSessionStart;
+    onSessionEndRef.current = onSessionEnd;
+    onSessionUpdateRef.current = onSessionUpdate;
+    onTranscriptRef.current = onTranscript;
+    onSafetyAlertRef.current = onSafetyAlert;
+    onRecordingRef.current = onRecording;
+  }, [onEvaluation, onSessionStart, onSessionEnd, onSessionUpdate, onTranscript, onSafetyAlert, onRecording]);
+
+  // Logs a safety alert for the parent, then steers Mimi back on track or pauses the class
+  const raiseSafetyAlert = useCallback((alert: Omit<SafetyAlert, 'id' | 'timestamp'>) => {
+    onSafetyAlertRef.current?.({ ...alert, id: createId(), timestamp: Date.now() });
+
+    // Nothing to steer once the session is closing
+    const settings = settingsRef.current;
+    if (!settings || !sessionPromiseRef.current) return;
+
+    if (alert.action === 'pause') {
+      // Let the message being handled finish before tearing the session down
+      setTimeout(() => disconnectRef.current(), 0);
+      return;
+    }
+
+    const { safety } = PROMPTS[settings.language];
+    const note = alert.category === 'offTopic' && settings.focusTopic
+      ? safety.offTopic(localizeTopic(settings.curriculum, settings.focusTopic, settings.language))
+      : alert.category === 'personalInfo' ? safety.personalInfo : safety.blockedContent;
+    sessionPromiseRef.current.then(session => {
+        session.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text: note }] }],
+            turnComplete: false
+        });
+    });
+  }, []);
+
+  const flushTranscriptTurn = useCallback(() => {
+    const turn = pendingTurnRef.current;
+    pendingTurnRef.current = null;
+    if (turn && turn.text.trim()) {
+      const safety = settingsRef.current?.safety;
+      const finding = safety ? checkSafety(turn.text, safety) : null;
+      // Personal details are hidden before the turn is stored anywhere
+      const text = safety?.detectPersonalInfo ? redactPersonalInfo(turn.text) : turn.text;
+      const finished = { ...turn, text: text.trim() };
+      recentTurnsRef.current = [...recentTurnsRef.current, finished].slice(-RECENT_TURNS_KEPT);
+      onTranscriptRef.current?.(finished);
+
+      if (finding) {
+        raiseSafetyAlert({
+          sessionId: turn.sessionId,
+          category: finding.category,
+          rule: finding.rule,
+          speaker: turn.speaker,
+          excerpt: finished.text,
+          // If Mimi herself says something unsuitable, the rest of the class can't be trusted
+          action: finding.category === 'blockedContent' && turn.speaker === 'mimi' ? 'pause' : 'redirect'
+        });
+      }
+    }
+  }, [raiseSafetyAlert]);
+
+  // Adds transcribed text to the open turn, starting a new one when the speaker changes
+  const appendTranscript = useCallback((sessionId: string, speaker: TranscriptTurn['speaker'], text: string) => {
+    if (pendingTurnRef.current?.speaker !== speaker) {
+      flushTranscriptTurn();
+      pendingTurnRef.current = { id: createId(), sessionId, speaker, text: '', startedAt: Date.now() };
+    }
+    pendingTurnRef.current.text += text;
+  }, [flushTranscriptTurn]);
+
+  // Closes the session once a finished lesson has been wrapped up
+  const endLessonAfter = useCallback((delayMs: number) => {
+    if (lessonEndTimerRef.current) clearTimeout(lessonEndTimerRef.current);
+    lessonEndTimerRef.current = setTimeout(() => disconnectRef.current(), delayMs);
+  }, []);
+
+  // Tools every session gets; extra tools from props are added after these
+  const builtInTools = useMemo<RegisteredTool[]>(() => [
+    defineTool({
+      declaration: evaluationTool,
+      parseArgs: parseEvaluationArgs,
+      handler: ({ isCorrect, topic: reportedTopic }, { sessionId, settings }) => {
+        // Use the provided topic if available, otherwise fall back to the focus topic.
+        // Mimi may report it translated, so map it back to the pack's name.
+        const topic = reportedTopic ? normalizeTopic(settings.curriculum, reportedTopic) : settings.focusTopic;
+
+        streakRef.current = isCorrect ? streakRef.current + 1 : 0;
+        soundEngine.play(!isCorrect ? 'incorrect' : streakRef.current % STREAK_LENGTH === 0 ? 'streak' : 'correct');
+        setReaction(isCorrect ? 'celebrating' : 'encouraging');
+        if (reactionTimerRef.current) clearTimeout(reactionTimerRef.current);
+        reactionTimerRef.current = setTimeout(() => setReaction(null), REACTION_MS);
+        setVisualAid(null);
+        setAnswerChoices(null);
+
+        // Link the child's answer in the transcript to this evaluation
+        const evaluationId = createId();
+        if (pendingTurnRef.current?.speaker === 'child') {
+          pendingTurnRef.current.evaluationId = evaluationId;
+          flushTranscriptTurn();
+        }
+
+        // Notify parent component via callback
+        onEvaluationRef.current?.({
+          id: evaluationId,
+          sessionId,
+          timestamp: Date.now(),
+          isCorrect,
+          topic,
+          difficulty: settings.difficulty
+        });
+
+        // Steer Mimi back once she keeps asking about something other than the chosen topic
+        if (settings.safety.keepOnTopic && isOffTopic(settings.focusTopic, topic)) {
+          offTopicCountRef.current++;
+          if (offTopicCountRef.current >= DRIFT_THRESHOLD && topic) {
+            offTopicCountRef.current = 0;
+            raiseSafetyAlert({
+              sessionId,
+              category: 'offTopic',
+              rule: topic,
+              speaker: 'mimi',
+              excerpt: recentTurnsRef.current.filter(t => t.speaker === 'mimi').pop()?.text ?? '',
+              action: 'redirect'
+            });
+          }
+        } else {
+          offTopicCountRef.current = 0;
+        }
+
+        // The last answer of a lesson: Mimi wraps up instead of asking another question
+        const lesson = lessonRef.current;
+        if (lesson && lesson.answered < lesson.total) {
+          const progress = { ...lesson, answered: lesson.answered + 1, correct: lesson.correct + (isCorrect ? 1 : 0) };
+          lessonRef.current = progress;
+          setLessonProgress(progress);
+          if (progress.answered === progress.total) {
+            wrapUpRef.current = 'waiting';
+            endLessonAfter(WRAP_UP_TIMEOUT_MS);
+            return PROMPTS[settings.language].lessonComplete(progress.correct, progress.answered);
+          }
+        }
+        return 'ok';
+      },
+    }),
+    ...VISUAL_AID_TOOLS.map(declaration => defineTool({
+      declaration,
+      parseArgs: (args) => {
+        const { aid, error } = parseVisualAid(declaration.name ?? '', args);
+        return { args: aid, error };
+      },
+      handler: (aid: VisualAid) => {
+        setVisualAid(aid);
+        return 'shown';
+      },
+    })),
+  ], [flushTranscriptTurn, raiseSafetyAlert, endLessonAfter]);
+
+  const choicesTool = useMemo(() => defineTool({
+    declaration: offerChoicesTool,
+    parseArgs: (args) => {
+      const { choices, error } = parseAnswerChoices(args);
+      return { args: choices, error };
+    },
+    handler: (choices: AnswerChoice[]) => {
+      setAnswerChoices(choices);
+      return 'shown';
+    },
+  }), []);
+
+  // Asks Mimi to wind down before `endsAt`. Without an open session the request
+  // is kept until one opens, so a class started with little time left still gets it.
+  const sendWindDown = useCallback((endsAt: number) => {
+    const current = settingsRef.current;
+    if (!current) return;
+    if (!sessionPromiseRef.current) {
+      pendingWindDownRef.current = endsAt;
+      return;
+    }
+    pendingWindDownRef.current = null;
+    const minutesLeft = Math.max(1, Math.round((endsAt - Date.now()) / 60000));
+    sessionPromiseRef.current.then(session => {
+        session.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text: PROMPTS[current.language].windDown(minutesLeft) }] }],
+            turnComplete: false
+        });
+    });
+  }, []);
 
   const disconnect = useCallback(() => {
+    // Ignore any late events from the session being closed
+    attemptRef.current++;
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectAttemptsRef.current = 0;
+    resumeHandleRef.current = null;
+    if (lessonEndTimerRef.current) {
+      clearTimeout(lessonEndTimerRef.current);
+      lessonEndTimerRef.current = null;
+    }
+    lessonRef.current = null;
+    wrapUpRef.current = 'none';
+    pendingWindDownRef.current = null;
+
     if (sessionPromiseRef.current) {
         sessionPromiseRef.current.then(session => {
             try {
@@ -111,7 +524,7 @@ export const useGeminiLive = ({ onEvaluation }: UseGeminiLiveProps = {}) => {
             } catch (e) {
                 console.warn("Error closing session", e);
             }
-        });
+        }).catch(() => {});
         sessionPromiseRef.current = null;
     }
 
@@ -126,9 +539,10 @@ export const useGeminiLive = ({ onEvaluation }: UseGeminiLiveProps = {}) => {
       inputSourceRef.current.disconnect();
       inputSourceRef.current = null;
     }
-    if (scriptProcessorRef.current) {
-      scriptProcessorRef.current.disconnect();
-      scriptProcessorRef.current = null;
+    if (captureNodeRef.current) {
+      captureNodeRef.current.port.onmessage = null;
+      captureNodeRef.current.disconnect();
+      captureNodeRef.current = null;
     }
     if (inputAudioContextRef.current) {
       inputAudioContextRef.current.close();
@@ -138,116 +552,247 @@ export const useGeminiLive = ({ onEvaluation }: UseGeminiLiveProps = {}) => {
     // Stop Output Audio
     sourcesRef.current.forEach(source => source.stop());
     sourcesRef.current.clear();
+    if (lipSyncTimerRef.current) {
+      clearInterval(lipSyncTimerRef.current);
+      lipSyncTimerRef.current = null;
+    }
+    outputAnalyserRef.current = null;
+    soundEngine.detach();
     
     if (outputAudioContextRef.current) {
       outputAudioContextRef.current.close();
       outputAudioContextRef.current = null;
     }
 
+    flushTranscriptTurn();
+    recentTurnsRef.current = [];
+
+    // Hand over the recording of a class that actually started
+    const recording = recorderRef.current?.finish(sessionIdRef.current);
+    recorderRef.current = null;
+    if (recording && sessionRecordRef.current) {
+      onRecordingRef.current?.(recording);
+    }
+
+    // Close off the session record for analytics
+    if (heartbeatTimerRef.current) {
+      clearInterval(heartbeatTimerRef.current);
+      heartbeatTimerRef.current = null;
+    }
+    if (sessionRecordRef.current) {
+      const session = { ...sessionRecordRef.current, endedAt: Date.now() };
+      sessionRecordRef.current = null;
+      soundEngine.play('sessionEnd');
+      onSessionEndRef.current?.(session);
+    }
+
     setConnectionState(ConnectionState.DISCONNECTED);
+    voiceGateRef.current.reset();
+    isChildSpeakingRef.current = false;
+    isTalkHeldRef.current = false;
+    talkTailRef.current = 0;
+
     setIsMimiSpeaking(false);
+    setIsChildSpeaking(false);
+    setVisualAid(null);
+    setAnswerChoices(null);
+    setLessonProgress(null);
+    if (reactionTimerRef.current) {
+      clearTimeout(reactionTimerRef.current);
+      reactionTimerRef.current = null;
+    }
+    setReaction(null);
+    setMimiMouth(CLOSED_MOUTH);
     setVolume(0);
-  }, []);
+  }, [flushTranscriptTurn]);
+  disconnectRef.current = disconnect;
+
+  // Records audio the gate let through; held-back chunks are released together, so each is placed before the next
+  const recordSentChunks = (chunks: CaptureChunk[]) => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    let endsAt = Date.now() - chunks.reduce((ms, c) => ms + (c.pcm.length / INPUT_SAMPLE_RATE) * 1000, 0);
+    for (const chunk of chunks) {
+      endsAt += (chunk.pcm.length / INPUT_SAMPLE_RATE) * 1000;
+      recorder.addChildAudio(chunk.pcm, endsAt);
+    }
+  };
 
-  const connect = useCallback(async (difficulty: string, focusTopic?: string) => {
-    try {
-      setConnectionState(ConnectionState.CONNECTING);
+  // Streams microphone audio to whichever session is currently open
+  const startInputPipeline = useCallback(() => {
+    const inputCtx = inputAudioContextRef.current;
+    const stream = mediaStreamRef.current;
+    if (!inputCtx || !stream || captureNodeRef.current) return;
+
+    const source = inputCtx.createMediaStreamSource(stream);
+    inputSourceRef.current = source;
+
+    // The worklet resamples to 16kHz and measures volume off the main thread
+    const captureNode = createCaptureNode(inputCtx, (chunk) => {
+      setVolume(Math.min(chunk.rms * 5, 1)); // Amplify slightly for visual
+
+      // Push-to-talk sends only what is said while the button is held, then ends the turn
+      if (settingsRef.current?.listeningMode === 'pushToTalk') {
+        const isSending = isTalkHeldRef.current || talkTailRef.current > 0;
+        const turnEnded = !isTalkHeldRef.current && talkTailRef.current > 0 && --talkTailRef.current === 0;
+        if (sessionPromiseRef.current && isSending) {
+          recorderRef.current?.addChildAudio(chunk.pcm);
+          const pcmBlob = createPcmBlob(chunk.pcm, INPUT_SAMPLE_RATE);
+          sessionPromiseRef.current.then((session) => {
+            session.sendRealtimeInput({ media: pcmBlob });
+            if (turnEnded) session.sendRealtimeInput({ activityEnd: {} });
+          });
+        }
+        return;
+      }
 
-      // Initialize GenAI
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      // Silence is held back; Mimi's own playback raises the bar for barge-ins
+      const { chunks, isSpeaking, speechEnded } = voiceGateRef.current.process(chunk, sourcesRef.current.size > 0);
+      if (isSpeaking !== isChildSpeakingRef.current) {
+        isChildSpeakingRef.current = isSpeaking;
+        setIsChildSpeaking(isSpeaking);
+      }
 
-      // Setup Audio Contexts
-      // Input: 16kHz for Gemini
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      inputAudioContextRef.current = inputCtx;
+      // Create Blobs and Send (dropped while reconnecting)
+      if (sessionPromiseRef.current && (chunks.length > 0 || speechEnded)) {
+        recordSentChunks(chunks);
+        const pcmBlobs = chunks.map(c => createPcmBlob(c.pcm, INPUT_SAMPLE_RATE));
+        sessionPromiseRef.current.then((session) => {
+           pcmBlobs.forEach(pcmBlob => session.sendRealtimeInput({ media: pcmBlob }));
+           // Lets the server's turn detection know the child has stopped
+           if (speechEnded) session.sendRealtimeInput({ audioStreamEnd: true });
+        });
+      }
+    });
+    captureNodeRef.current = captureNode;
 
-      // Output: 24kHz for Gemini response
-      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      outputAudioContextRef.current = outputCtx;
-      nextStartTimeRef.current = outputCtx.currentTime;
+    source.connect(captureNode);
+    captureNode.connect(inputCtx.destination); // Outputs silence; keeps the node rendering
+  }, []);
 
-      // Get Microphone Access
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaStreamRef.current = stream;
+  // Opens a live session using the audio set up by connect. When resuming after a
+  // dropped connection, the microphone and audio contexts are reused as they are.
+  const openSession = useCallback((resuming: boolean) => {
+    const settings = settingsRef.current;
+    const outputCtx = outputAudioContextRef.current;
+    const sessionId = sessionIdRef.current;
+    if (!settings || !outputCtx) return;
+
+    const attempt = ++attemptRef.current;
+    const isCurrent = () => attempt === attemptRef.current;
+
+    // Retries with exponential backoff, giving up after a few attempts
+    const handleConnectionLost = () => {
+      if (!isCurrent()) return;
+      attemptRef.current++;
+      sessionPromiseRef.current = null;
+      flushTranscriptTurn();
+
+      // Only sessions that opened at least once are resumed
+      if (!sessionRecordRef.current || reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS) {
+        disconnect();
+        setConnectionState(ConnectionState.ERROR);
+        return;
+      }
 
-      // Start Session
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttemptsRef.current, RECONNECT_MAX_DELAY_MS);
+      reconnectAttemptsRef.current++;
+      console.log(`Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current})`);
+      setConnectionState(ConnectionState.RECONNECTING);
+      reconnectTimerRef.current = setTimeout(() => {
+        reconnectTimerRef.current = null;
+        openSession(true);
+      }, delay);
+    };
+
+    // Without a resumption handle the model starts fresh, so remind it where the lesson was
+    const resumeHandle = resuming ? resumeHandleRef.current : null;
+    const systemInstruction = GET_SYSTEM_INSTRUCTION(settings)
+      + (resuming && !resumeHandle ? GET_RESUME_INSTRUCTION(PROMPTS[settings.language], recentTurnsRef.current) : '');
+
+    const toolRegistry = createToolRegistry([...builtInTools, ...(settings.tapToAnswer ? [choicesTool] : []), ...toolsRef.current]);
+
+    const sessionPromise = transportRef.current.connect({
         config: {
           responseModalities: [Modality.AUDIO],
           speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }, // Kore is usually soft/friendly
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.persona.voiceName } },
           },
-          systemInstruction: GET_SYSTEM_INSTRUCTION(difficulty, focusTopic),
-          tools: [{ functionDeclarations: [evaluationTool] }],
+          systemInstruction,
+          tools: [{ functionDeclarations: toolRegistry.declarations }],
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          sessionResumption: resumeHandle ? { handle: resumeHandle } : {},
+          // In push-to-talk the app marks where the child's turns start and end
+          ...(settings.listeningMode === 'pushToTalk' && {
+            realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+          }),
         },
         callbacks: {
           onopen: () => {
-            console.log('Session opened');
+            if (!isCurrent()) return;
+            console.log(resuming ? 'Session resumed' : 'Session opened');
             setConnectionState(ConnectionState.CONNECTED);
+            reconnectAttemptsRef.current = 0;
+
+            if (!sessionRecordRef.current) {
+              sessionRecordRef.current = {
+                id: sessionId,
+                startedAt: Date.now(),
+                difficulty: settings.difficulty,
+                focusTopic: settings.focusTopic,
+                lessonLength: settings.lessonLength,
+                personaId: settings.persona.id
+              };
+              onSessionStartRef.current?.(sessionRecordRef.current);
+              soundEngine.play('sessionStart');
+              heartbeatTimerRef.current = setInterval(() => {
+                if (!sessionRecordRef.current) return;
+                sessionRecordRef.current = { ...sessionRecordRef.current, lastActiveAt: Date.now() };
+                onSessionUpdateRef.current?.(sessionRecordRef.current);
+              }, SESSION_HEARTBEAT_MS);
+            }
 
-            // Setup Input Processing Pipeline
-            const source = inputCtx.createMediaStreamSource(stream);
-            inputSourceRef.current = source;
-
-            // ScriptProcessor: BufferSize 4096, 1 input channel, 1 output channel
-            const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-            scriptProcessorRef.current = processor;
-
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              
-              // Calculate volume for visualizer (RMS)
-              let sum = 0;
-              for (let i = 0; i < inputData.length; i++) {
-                sum += inputData[i] * inputData[i];
-              }
-              const rms = Math.sqrt(sum / inputData.length);
-              setVolume(Math.min(rms * 5, 1)); // Amplify slightly for visual
-
-              // Create Blob and Send
-              const pcmBlob = createBlob(inputData);
-              
-              if (sessionPromiseRef.current) {
-                sessionPromiseRef.current.then((session) => {
-                   session.sendRealtimeInput({ media: pcmBlob });
-                });
-              }
-            };
-
-            source.connect(processor);
-            processor.connect(inputCtx.destination);
+            startInputPipeline();
+            if (pendingWindDownRef.current !== null) sendWindDown(pendingWindDownRef.current);
           },
           onmessage: async (message: LiveServerMessage) => {
-             // Handle Tool Calls (Sound Feedback & Progress)
-             if (message.toolCall) {
-                for (const fc of message.toolCall.functionCalls) {
-                    if (fc.name === 'reportEvaluation') {
-                        const isCorrect = fc.args['isCorrect'] as boolean;
-                        // Use the provided topic if available, otherwise fall back to reported topic
-                        let topic = fc.args['topic'] as string | undefined;
-                        
-                        playFeedbackSound(isCorrect);
-                        
-                        // Notify parent component via callback
-                        if (onEvaluationRef.current) {
-                            onEvaluationRef.current(isCorrect, topic);
-                        }
-
-                        // Respond to the tool to let the model continue
-                        if (sessionPromiseRef.current) {
-                            sessionPromiseRef.current.then(session => {
-                                session.sendToolResponse({
-                                    functionResponses: {
-                                        id: fc.id,
-                                        name: fc.name,
-                                        response: { result: "ok" }
-                                    }
-                                });
-                            });
-                        }
-                    }
-                }
+             if (!isCurrent()) return;
+
+             // Keep the latest handle so a dropped session can pick up where it left off
+             const resumption = message.sessionResumptionUpdate;
+             if (resumption?.resumable && resumption.newHandle) {
+               resumeHandleRef.current = resumption.newHandle;
+             }
+             if (message.goAway) {
+               console.log('Server is closing the session soon', message.goAway.timeLeft);
+             }
+
+             // Handle Tool Calls (Sound Feedback, Progress, Pictures and any extra tools)
+             for (const fc of message.toolCall?.functionCalls ?? []) {
+                toolRegistry.call(fc, { sessionId, settings: settingsRef.current ?? settings }).then(response => {
+                    // Respond to the tool to let the model continue
+                    if (!isCurrent() || !sessionPromiseRef.current) return;
+                    sessionPromiseRef.current.then(session => session.sendToolResponse({ functionResponses: response }));
+                });
+             }
+
+             // Handle Transcriptions
+             const inputText = message.serverContent?.inputTranscription?.text;
+             if (inputText) {
+               appendTranscript(sessionId, 'child', inputText);
+             }
+             const outputText = message.serverContent?.outputTranscription?.text;
+             if (outputText) {
+               appendTranscript(sessionId, 'mimi', outputText);
+             }
+             if (message.serverContent?.turnComplete) {
+               flushTranscriptTurn();
+               // Mimi has finished the wrap-up; close once it has played
+               if (wrapUpRef.current === 'speaking' && outputCtx) {
+                 const playingMs = Math.max(0, nextStartTimeRef.current - outputCtx.currentTime) * 1000;
+                 endLessonAfter(playingMs + LESSON_END_PAUSE_MS);
+               }
              }
 
              // Handle Audio Output
@@ -258,16 +803,21 @@ export const useGeminiLive = ({ onEvaluation }: UseGeminiLiveProps = {}) => {
 
                // Update state to show Mimi is talking
                setIsMimiSpeaking(true);
+               if (wrapUpRef.current === 'waiting') wrapUpRef.current = 'speaking';
 
                // Ensure playback timing is continuous
                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
 
                const audioBytes = decode(base64Audio);
-               const audioBuffer = await decodeAudioData(audioBytes, outputCtx, 24000, 1);
+               const audioBuffer = await decodeAudioData(audioBytes, outputCtx, OUTPUT_SAMPLE_RATE, 1);
+               recorderRef.current?.addMimiAudio(
+                 new Int16Array(audioBytes.buffer),
+                 Date.now() + (nextStartTimeRef.current - outputCtx.currentTime) * 1000
+               );
                
                const source = outputCtx.createBufferSource();
                source.buffer = audioBuffer;
-               source.connect(outputCtx.destination);
+               source.connect(outputAnalyserRef.current ?? outputCtx.destination);
                
                source.addEventListener('ended', () => {
                  sourcesRef.current.delete(source);
@@ -288,29 +838,139 @@ export const useGeminiLive = ({ onEvaluation }: UseGeminiLiveProps = {}) => {
                  sourcesRef.current.forEach(src => src.stop());
                  sourcesRef.current.clear();
                  nextStartTimeRef.current = outputCtx.currentTime;
+                 recorderRef.current?.cutMimiAudio();
                  setIsMimiSpeaking(false);
              }
           },
           onclose: () => {
             console.log('Session closed');
-            disconnect();
+            handleConnectionLost();
           },
           onerror: (err) => {
             console.error('Session error', err);
-            disconnect();
-            setConnectionState(ConnectionState.ERROR);
+            handleConnectionLost();
           }
         }
-      });
+    });
+
+    sessionPromiseRef.current = sessionPromise;
+    sessionPromise.catch(error => {
+      console.error("Failed to open session", error);
+      handleConnectionLost();
+    });
+  }, [disconnect, startInputPipeline, appendTranscript, flushTranscriptTurn, builtInTools, choicesTool, endLessonAfter, sendWindDown]);
+
+  const connect = useCallback(async (settings: SessionSettings) => {
+    try {
+      setConnectionState(ConnectionState.CONNECTING);
+      sessionIdRef.current = createId();
+      settingsRef.current = settings;
+      offTopicCountRef.current = 0;
+      streakRef.current = 0;
+      recorderRef.current = settings.recordAudio ? createSessionRecorder(INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE) : null;
+      lessonRef.current = settings.lessonLength ? { total: settings.lessonLength, answered: 0, correct: 0 } : null;
+      setLessonProgress(lessonRef.current);
+
+      // Setup Audio Contexts
+      // Input: the device's native rate; the capture worklet resamples to 16kHz for Gemini
+      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      inputAudioContextRef.current = inputCtx;
+      await loadCaptureWorklet(inputCtx);
+
+      // Output: 24kHz for Gemini response
+      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+      outputAudioContextRef.current = outputCtx;
+      nextStartTimeRef.current = outputCtx.currentTime;
+      // Sound effects play alongside Mimi's voice while the class runs
+      soundEngine.attach(outputCtx);
+
+      // Lip sync: measure Mimi's voice while any of it is playing
+      const analyser = createLipSyncAnalyser(outputCtx);
+      outputAnalyserRef.current = analyser;
+      const readMouth = createMouthReader(analyser);
+      lipSyncTimerRef.current = setInterval(() => {
+        setMimiMouth(sourcesRef.current.size > 0 ? readMouth() : CLOSED_MOUTH);
+      }, LIP_SYNC_INTERVAL_MS);
+
+      // Get Microphone Access. Tap-to-answer works without one: the input pipeline
+      // is simply never started when there is no stream.
+      try {
+        mediaStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch (error) {
+        if (!settings.tapToAnswer) throw error;
+        console.warn("No microphone; continuing with tap-to-answer only", error);
+      }
 
-      sessionPromiseRef.current = sessionPromise;
+      // Start Session
+      openSession(false);
 
     } catch (error) {
       console.error("Failed to connect", error);
-      setConnectionState(ConnectionState.ERROR);
       disconnect();
+      setConnectionState(ConnectionState.ERROR);
     }
-  }, [disconnect]);
+  }, [disconnect, openSession]);
+
+  // Moves a running session to another difficulty without reconnecting
+  const updateDifficulty = useCallback((difficulty: string) => {
+    const current = settingsRef.current;
+    if (!current || current.difficulty === difficulty) return;
+    settingsRef.current = { ...current, difficulty };
+
+    if (sessionPromiseRef.current) {
+        sessionPromiseRef.current.then(session => {
+            session.sendClientContent({
+                turns: [{ role: 'user', parts: [{ text: GET_DIFFICULTY_UPDATE(current, difficulty, isPromotion(getLevelIds(current.curriculum), current.difficulty, difficulty)) }] }],
+                turnComplete: false
+            });
+        });
+    }
+  }, []);
+
+  // Asks Mimi to wrap up the lesson because class time is nearly over
+  const windDown = useCallback((minutesLeft: number) => {
+    sendWindDown(Date.now() + minutesLeft * 60000);
+  }, [sendWindDown]);
+
+  // Push-to-talk: the child starts a turn by holding the button, interrupting Mimi if she is talking
+  const startTalking = useCallback(() => {
+    if (settingsRef.current?.listeningMode !== 'pushToTalk' || isTalkHeldRef.current) return;
+    // Pressed again before the last turn finished sending: carry on with that turn
+    const isTurnOpen = talkTailRef.current > 0;
+    isTalkHeldRef.current = true;
+    talkTailRef.current = 0;
+    isChildSpeakingRef.current = true;
+    setIsChildSpeaking(true);
+    if (!isTurnOpen) sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ activityStart: {} }));
+  }, []);
+
+  const stopTalking = useCallback(() => {
+    if (!isTalkHeldRef.current) return;
+    isTalkHeldRef.current = false;
+    talkTailRef.current = RELEASE_TAIL_CHUNKS;
+    isChildSpeakingRef.current = false;
+    setIsChildSpeaking(false);
+  }, []);
+
+  // Sends a tapped answer as the child's turn; it is evaluated like a spoken one
+  const answerWithChoice = useCallback((choice: AnswerChoice) => {
+    const current = settingsRef.current;
+    if (!current || !sessionPromiseRef.current) return;
+    setAnswerChoices(null);
+    appendTranscript(sessionIdRef.current, 'child', choice.text);
+
+    sessionPromiseRef.current.then(session => {
+        session.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text: PROMPTS[current.language].tappedAnswer(choice.text) }] }],
+            turnComplete: true
+        });
+    });
+  }, [appendTranscript]);
+
+  // Keep sound effects from talking over Mimi
+  useEffect(() => {
+      soundEngine.setDucked(isMimiSpeaking);
+  }, [isMimiSpeaking]);
 
   // Clean up on unmount
   useEffect(() => {
@@ -319,11 +979,25 @@ export const useGeminiLive = ({ onEvaluation }: UseGeminiLiveProps = {}) => {
       }
   }, [disconnect]);
 
+  const isConnecting = connectionState === ConnectionState.CONNECTING || connectionState === ConnectionState.RECONNECTING;
+  const expression: FaceExpression = reaction ?? (isConnecting ? 'thinking' : 'idle');
+
   return {
     connectionState,
     connect,
     disconnect,
+    updateDifficulty,
+    windDown,
+    startTalking,
+    stopTalking,
+    answerWithChoice,
     isMimiSpeaking,
+    isChildSpeaking, // Voice activity detected on the microphone, or the talk button held
+    visualAid, // Picture Mimi is showing with the current question
+    answerChoices, // Buttons the child can tap to answer, in tap-to-answer mode
+    lessonProgress, // Answers so far in a lesson; null in free play
+    mimiMouth, // Mimi's voice as it plays, for lip sync
+    expression, // Face to show between words
     volume // Microphone input volume
   };
 };
\ No newline at end of file
@@ -0,0 +1,269 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AvatarId, ChildProfile, LanguageCode, EvaluationRecord, LevelChange, ListeningMode, RecordingSettings, SafetyAlert, SafetySettings, ScreenTimeLimits, SessionRecord, SoundSettings, TopicMastery, TranscriptTurn, UserProgress } from '../types';
+import { updateMastery } from '../utils/mastery';
+import { createId } from '../utils/ids';
+import { loadProfileStore, ProfileStore, saveProfileStore, SavedProfile } from '../services/profileStorage';
+import { NO_LIMITS } from '../utils/screenTime';
+import { DEFAULT_SAFETY } from '../utils/safety';
+import { DEFAULT_RECORDING } from '../utils/recording';
+import { DEFAULT_SOUNDS } from '../utils/soundEffects';
+import { findNewBadges } from '../utils/achievements';
+import { copyProfile, ImportResolution, mergeProfiles } from '../utils/profileExport';
+import { BADGES } from '../achievements';
+import { MIMI_STARTER_PACK } from '../curricula/mimiStarter';
+import { DEFAULT_LANGUAGE } from '../i18n';
+import { DEFAULT_PERSONA_ID } from '../personas';
+
+export const DEFAULT_PROGRESS: UserProgress = {
+    difficulty: 'Easy',
+    curriculumId: MIMI_STARTER_PACK.id,
+    adaptiveDifficulty: false,
+    stars: 0,
+    mastery: {}
+};
+
+const EMPTY_STORE: ProfileStore = { activeProfileId: null, profiles: [] };
+
+// Records that grow over time, missing from profiles saved by older versions
+type ProfileHistory = Pick<ChildProfile, 'evaluations' | 'levelChanges' | 'sessions' | 'transcripts' | 'safetyAlerts' | 'badges'>;
+
+const EMPTY_HISTORY: ProfileHistory = {
+    evaluations: [],
+    levelChanges: [],
+    sessions: [],
+    transcripts: [],
+    safetyAlerts: [],
+    badges: []
+};
+
+/**
+ * Fills in fields added after a profile was saved.
+ */
+const normalizeProfile = (saved: SavedProfile): ChildProfile => ({
+    ...EMPTY_HISTORY,
+    ...saved,
+    language: saved.language ?? DEFAULT_LANGUAGE,
+    personaId: saved.personaId ?? DEFAULT_PERSONA_ID,
+    limits: saved.limits ?? NO_LIMITS,
+    safety: saved.safety ?? DEFAULT_SAFETY,
+    recording: saved.recording ?? DEFAULT_RECORDING,
+    sounds: saved.sounds ?? DEFAULT_SOUNDS,
+    listeningMode: saved.listeningMode ?? 'alwaysOn',
+    tapToAnswer: saved.tapToAnswer ?? false,
+    progress: { ...DEFAULT_PROGRESS, ...saved.progress }
+});
+
+/**
+ * Gives the child any badges their history now qualifies for.
+ */
+const awardBadges = (profile: ChildProfile): ChildProfile => {
+    const earned = findNewBadges(BADGES, profile, profile.badges);
+    if (earned.length === 0) return profile;
+    const earnedAt = Date.now();
+    return { ...profile, badges: [...profile.badges, ...earned.map(badge => ({ badgeId: badge.id, earnedAt }))] };
+};
+
+export interface NewProfileDetails {
+    name: string;
+    age?: number;
+    avatar: AvatarId;
+    language: LanguageCode;
+    secondLanguage?: LanguageCode;
+    personaId?: string;
+    limits?: ScreenTimeLimits;
+    safety?: SafetySettings;
+    recording?: RecordingSettings;
+    sounds?: SoundSettings;
+    listeningMode?: ListeningMode;
+    tapToAnswer?: boolean;
+    lessonLength?: number;
+}
+
+export const useProfiles = () => {
+  const [store, setStore] = useState<ProfileStore>(EMPTY_STORE);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  // What was last written, so only changed records are saved again. Moves on only once a
+  // save succeeds, so records from a failed save are tried again with the next one.
+  const savedStoreRef = useRef<ProfileStore>(EMPTY_STORE);
+  // Saves run one after another, so an older snapshot can never be written over a newer one
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Load profiles on mount
+  useEffect(() => {
+      loadProfileStore().then(({ store: saved, error }) => {
+          if (error) console.error("Failed to load profiles", error);
+          const loaded = { ...saved, profiles: saved.profiles.map(normalizeProfile) };
+          savedStoreRef.current = loaded;
+          setStore(loaded);
+          setHasLoaded(true);
+      });
+  }, []);
+
+  // Save profiles whenever they change
+  useEffect(() => {
+      if (!hasLoaded) return;
+      saveQueueRef.current = saveQueueRef.current.then(() =>
+          saveProfileStore(store, savedStoreRef.current)
+              .then(() => { savedStoreRef.current = store; })
+              .catch(e => console.error("Failed to save profiles", e))
+      );
+  }, [store, hasLoaded]);
+
+  const selectProfile = useCallback((id: string) => {
+      setStore(prev => ({ ...prev, activeProfileId: id }));
+  }, []);
+
+  const createProfile = useCallback((details: NewProfileDetails) => {
+      const profile: ChildProfile = {
+          id: createId(),
+          ...details,
+          personaId: details.personaId ?? DEFAULT_PERSONA_ID,
+          limits: details.limits ?? NO_LIMITS,
+          safety: details.safety ?? DEFAULT_SAFETY,
+          recording: details.recording ?? DEFAULT_RECORDING,
+          sounds: details.sounds ?? DEFAULT_SOUNDS,
+          listeningMode: details.listeningMode ?? 'alwaysOn',
+          tapToAnswer: details.tapToAnswer ?? false,
+          progress: DEFAULT_PROGRESS,
+          ...EMPTY_HISTORY
+      };
+      setStore(prev => ({
+          activeProfileId: profile.id,
+          profiles: [...prev.profiles, profile]
+      }));
+  }, []);
+
+  const updateProfile = useCallback((id: string, details: Partial<NewProfileDetails>) => {
+      setStore(prev => ({
+          ...prev,
+          profiles: prev.profiles.map(p => p.id === id ? { ...p, ...details } : p)
+      }));
+  }, []);
+
+  const deleteProfile = useCallback((id: string) => {
+      setStore(prev => {
+          const profiles = prev.profiles.filter(p => p.id !== id);
+          const activeProfileId = prev.activeProfileId === id
+              ? (profiles[0]?.id ?? null)
+              : prev.activeProfileId;
+          return { activeProfileId, profiles };
+      });
+  }, []);
+
+  // Updates the progress of the given profile, or of whichever profile is active when the update runs
+  const updateProgress = useCallback((updater: (prev: UserProgress) => UserProgress, profileId?: string) => {
+      setStore(prev => ({
+          ...prev,
+          profiles: prev.profiles.map(p =>
+              p.id === (profileId ?? prev.activeProfileId) ? { ...p, progress: updater(p.progress) } : p
+          )
+      }));
+  }, []);
+
+  // Stores an answer for the active child, awarding a star and any badges and updating topic mastery
+  const recordEvaluation = useCallback((record: EvaluationRecord) => {
+      setStore(prev => ({
+          ...prev,
+          profiles: prev.profiles.map(p => {
+              if (p.id !== prev.activeProfileId) return p;
+              let mastery: Record<string, TopicMastery> = p.progress.mastery;
+              if (record.topic) {
+                  mastery = { ...mastery, [record.topic]: updateMastery(mastery[record.topic], record) };
+              }
+              return awardBadges({
+                  ...p,
+                  evaluations: [...p.evaluations, record],
+                  progress: {
+                      ...p.progress,
+                      stars: p.progress.stars + (record.isCorrect ? 1 : 0),
+                      mastery
+                  }
+              });
+          })
+      }));
+  }, []);
+
+  // Logs an adaptive level change for the active child and applies the new level
+  const recordLevelChange = useCallback((change: LevelChange) => {
+      setStore(prev => ({
+          ...prev,
+          profiles: prev.profiles.map(p => p.id === prev.activeProfileId ? {
+              ...p,
+              levelChanges: [...p.levelChanges, change],
+              progress: { ...p.progress, difficulty: change.to }
+          } : p)
+      }));
+  }, []);
+
+  // Adds a session for the active child, or updates it when it ends
+  const recordSession = useCallback((session: SessionRecord) => {
+      setStore(prev => ({
+          ...prev,
+          profiles: prev.profiles.map(p => {
+              if (p.id !== prev.activeProfileId) return p;
+              const exists = p.sessions.some(s => s.id === session.id);
+              return awardBadges({
+                  ...p,
+                  sessions: exists
+                      ? p.sessions.map(s => s.id === session.id ? session : s)
+                      : [...p.sessions, session]
+              });
+          })
+      }));
+  }, []);
+
+  const recordTranscript = useCallback((turn: TranscriptTurn) => {
+      setStore(prev => ({
+          ...prev,
+          profiles: prev.profiles.map(p => p.id === prev.activeProfileId
+              ? { ...p, transcripts: [...p.transcripts, turn] }
+              : p)
+      }));
+  }, []);
+
+  // Adds an entry to the active child's safety alert log
+  const recordSafetyAlert = useCallback((alert: SafetyAlert) => {
+      setStore(prev => ({
+          ...prev,
+          profiles: prev.profiles.map(p => p.id === prev.activeProfileId
+              ? { ...p, safetyAlerts: [...p.safetyAlerts, alert] }
+              : p)
+      }));
+  }, []);
+
+  /**
+   * Restores a child from a backup and returns their profile id. A child who is
+   * already on this device is merged with the backup, replaced by it, or kept
+   * alongside a copy of it.
+   */
+  const importProfile = useCallback((saved: SavedProfile, resolution: ImportResolution = 'merge'): string => {
+      const imported = normalizeProfile(saved);
+      const profile = resolution === 'copy' ? copyProfile(imported) : imported;
+      setStore(prev => {
+          const local = prev.profiles.find(p => p.id === profile.id);
+          if (!local) return { ...prev, profiles: [...prev.profiles, awardBadges(profile)] };
+          const restored = awardBadges(resolution === 'merge' ? mergeProfiles(local, profile) : profile);
+          return { ...prev, profiles: prev.profiles.map(p => p.id === profile.id ? restored : p) };
+      });
+      return profile.id;
+  }, []);
+
+  const activeProfile = store.profiles.find(p => p.id === store.activeProfileId) ?? null;
+
+  return {
+    profiles: store.profiles,
+    activeProfile,
+    hasLoaded,
+    selectProfile,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+    updateProgress,
+    recordEvaluation,
+    recordLevelChange,
+    recordSession,
+    recordTranscript,
+    recordSafetyAlert,
+    importProfile
+  };
+};
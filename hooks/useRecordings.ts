@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChildProfile, RecordingInfo, SessionRecording } from '../types';
+import { deleteRecordings, isRecordingAvailable, listRecordings, loadRecording, saveRecording } from '../services/recordingStore';
+import { getExpiredRecordings, renderRecordingWav } from '../utils/recording';
+import { downloadFile } from '../utils/download';
+import { getExportFileName } from '../utils/profileExport';
+import { MessageKey } from '../i18n';
+
+/**
+ * Recordings of the children's classes, newest first. Recordings past their
+ * child's retention period are deleted on load and when settings change.
+ */
+export const useRecordings = (profiles: ChildProfile[], hasLoadedProfiles: boolean) => {
+  const [recordings, setRecordings] = useState<RecordingInfo[]>([]);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  // False when IndexedDB can't be used, such as in some private windows
+  const [isAvailable, setIsAvailable] = useState(false);
+
+  useEffect(() => {
+      isRecordingAvailable().then(available => {
+          setIsAvailable(available);
+          if (!available) return;
+          listRecordings()
+              .then(list => {
+                  setRecordings(list.sort((a, b) => b.startedAt - a.startedAt));
+                  setHasLoaded(true);
+              })
+              .catch(e => console.error("Failed to load recordings", e));
+      });
+  }, []);
+
+  const remove = useCallback((ids: string[]) => {
+      if (ids.length === 0) return;
+      setRecordings(prev => prev.filter(r => !ids.includes(r.id)));
+      deleteRecordings(ids).catch(e => console.error("Failed to delete recordings", e));
+  }, []);
+
+  // Keyed on retention settings so recording a class doesn't rerun it
+  const retentionKey = profiles.map(p => `${p.id}:${p.recording.retentionDays}`).join(',');
+  useEffect(() => {
+      if (!hasLoaded || !hasLoadedProfiles) return;
+      remove(getExpiredRecordings(recordings, profiles).map(r => r.id));
+  }, [hasLoaded, hasLoadedProfiles, retentionKey, remove]);
+
+  const addRecording = useCallback((profileId: string, recording: SessionRecording) => {
+      saveRecording(profileId, recording)
+          .then(info => setRecordings(prev => [info, ...prev.filter(r => r.id !== info.id)]))
+          .catch(e => console.error("Failed to save recording", e));
+  }, []);
+
+  const deleteRecording = useCallback((id: string) => remove([id]), [remove]);
+
+  // Mixed is one channel with both voices; tracks puts the child left and Mimi right.
+  // Resolves to the reason when the recording couldn't be downloaded.
+  const downloadRecording = useCallback(async (info: RecordingInfo, mode: 'mixed' | 'tracks'): Promise<MessageKey | undefined> => {
+      const profile = profiles.find(p => p.id === info.profileId);
+      if (!profile) return 'recording.childGone';
+      try {
+          const recording = await loadRecording(info);
+          if (!recording) return 'recording.audioMissing';
+          const extension = mode === 'tracks' ? 'tracks.wav' : 'wav';
+          downloadFile(getExportFileName(profile, extension, info.startedAt), renderRecordingWav(recording, mode), 'audio/wav');
+      } catch (e) {
+          console.error("Failed to download recording", e);
+          return 'recording.fileFailed';
+      }
+  }, [profiles]);
+
+  return { recordings, isAvailable, addRecording, deleteRecording, downloadRecording };
+};
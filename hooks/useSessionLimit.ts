@@ -0,0 +1,60 @@
+import { useState, useRef, useEffect } from 'react';
+import { WIND_DOWN_MINUTES } from '../utils/screenTime';
+
+// How long to wait for Mimi to finish her goodbye once time is up
+const GOODBYE_GRACE_MS = 20000;
+
+interface UseSessionLimitProps {
+    endsAt: number | null; // When the current class must end; null for no limit
+    isMimiSpeaking: boolean;
+    onWindDown: (minutesLeft: number) => void;
+    onTimeUp: () => void;
+}
+
+/**
+ * Runs the clock for a time-limited class: asks Mimi to wind down a couple of
+ * minutes early, then ends the class once she stops talking after time is up.
+ */
+export const useSessionLimit = ({ endsAt, isMimiSpeaking, onWindDown, onTimeUp }: UseSessionLimitProps) => {
+  const [isOvertime, setIsOvertime] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const onWindDownRef = useRef(onWindDown);
+  const onTimeUpRef = useRef(onTimeUp);
+  onWindDownRef.current = onWindDown;
+  onTimeUpRef.current = onTimeUp;
+
+  // Schedule the wind-down and the end of class
+  useEffect(() => {
+    setIsOvertime(false);
+    if (endsAt === null) return;
+
+    const windDownTimer = setTimeout(
+      () => onWindDownRef.current((endsAt - Date.now()) / 60000),
+      Math.max(0, endsAt - WIND_DOWN_MINUTES * 60000 - Date.now())
+    );
+    const endTimer = setTimeout(() => setIsOvertime(true), Math.max(0, endsAt - Date.now()));
+    // Ticks the countdown shown to the child
+    const clock = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearTimeout(windDownTimer);
+      clearTimeout(endTimer);
+      clearInterval(clock);
+    };
+  }, [endsAt]);
+
+  // Let Mimi finish her sentence, but don't wait forever
+  useEffect(() => {
+    if (!isOvertime) return;
+    if (!isMimiSpeaking) {
+      onTimeUpRef.current();
+      return;
+    }
+    const timer = setTimeout(() => onTimeUpRef.current(), GOODBYE_GRACE_MS);
+    return () => clearTimeout(timer);
+  }, [isOvertime, isMimiSpeaking]);
+
+  return {
+    minutesLeft: endsAt === null ? null : Math.max(0, (endsAt - now) / 60000),
+  };
+};
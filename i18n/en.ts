@@ -0,0 +1,220 @@
+// English UI strings. Other languages must translate every key.
+// Placeholders like {name} are filled in by `t`.
+export const en = {
+  'app.online': 'ONLINE',
+  'app.reconnecting': 'RECONNECTING',
+  'app.offline': 'OFFLINE',
+  'app.greeting': "Hi {name}! I'm {teacher}.",
+  'app.greetingNoName': "Hi! I'm {teacher}.",
+  'app.welcomeBack': 'Welcome back! You have {stars}.',
+  'app.stars': '{count} stars',
+  'app.whatToLearn': 'What do you want to learn?',
+  'app.askName': 'Tell me your name so we can start learning!',
+  'app.ageLevel': 'Age Level',
+  'app.adaptive': '{teacher} picks my level: {state}',
+  'app.pushToTalk': 'Push to talk: {state}',
+  'app.tapToAnswer': 'Tap to answer: {state}',
+  'app.on': 'ON',
+  'app.off': 'OFF',
+  'app.chooseTopic': 'Choose a Topic (Optional)',
+  'app.mix': 'Mix',
+  'app.classType': 'Class',
+  'app.freePlay': 'Free play',
+  'app.lessonQuestions': '{count} questions',
+  'app.startClass': 'Start Class',
+  'app.stopClass': 'Stop Class',
+  'app.wakingUp': 'Waking up {teacher}...',
+  'app.findingTeacher': 'Oops! Finding {teacher} again...',
+  'app.stayThere': 'Stay right there, {teacher} will be back in a moment.',
+  'app.topic': 'Topic: {topic}',
+  'app.lastTopic': 'Last: {topic}',
+  'app.level': 'Level: {level}',
+  'app.listen': 'Listen carefully...',
+  'app.keepGoing': "Keep going, I'm listening!",
+  'app.yourTurn': 'Your turn to speak!',
+  'app.ohNo': 'Oh no!',
+  'app.couldNotConnect': "{teacher} couldn't connect. Maybe check your internet?",
+  'app.tryAgain': 'Try Again',
+  'app.footer': 'Safe & Friendly AI Learning',
+  'app.parents': 'Parents',
+  'app.chooseTeacher': 'Pick your teacher',
+  'app.minutesLeft': '{minutes} min left',
+  'app.breakTime': 'Time for a break!',
+  'app.sessionOver': 'Great learning today! Rest your eyes and go play.',
+  'app.dailyLimitReached': "That's all the class time for today. See you tomorrow!",
+  'app.outsideWindow': '{teacher} is resting right now. Come back later!',
+  'app.parentOverride': 'Grown-ups: allow a class',
+  'app.askGrownUp': 'Ask a grown-up to change this',
+  'app.okay': 'Okay!',
+  'app.classPaused': 'Class paused',
+  'app.recording': 'Recording',
+  'app.askGrownUpToCheck': "Let's take a little pause. Please ask a grown-up to come and check.",
+
+  'visualizer.talking': '{teacher} is talking...',
+  'visualizer.hearing': 'I hear you!',
+  'visualizer.listening': 'Listening to you...',
+  'visualizer.holdToTalk': 'Hold the button to talk',
+  'visualizer.sleeping': 'Sleeping',
+
+  'talk.hold': 'Hold to talk',
+  'talk.talking': 'Talking...',
+  'talk.spaceBar': 'Or hold the space bar',
+
+  'lesson.progress': 'Question {current} of {total}',
+  'lesson.complete': 'Lesson complete!',
+  'lesson.score': '{correct} of {total} right',
+  'lesson.stars': '+{count} stars',
+  'lesson.topics': 'Topics',
+
+  'profile.whoIsLearning': 'Who is learning today?',
+  'profile.name': 'Name',
+  'profile.age': 'Age',
+  'profile.language': 'Language',
+  'profile.secondLanguage': 'Also learn words in',
+  'profile.noSecondLanguage': 'No second language',
+  'profile.addChild': 'Add child',
+  'profile.edit': 'Edit',
+  'profile.delete': 'Delete',
+  'profile.confirmDelete': 'Delete {name} and all their stars?',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+
+  'mastery.heading': 'Things I know',
+  'mastery.learning': 'Learning',
+  'mastery.practicing': 'Getting there',
+  'mastery.mastered': 'I know it!',
+  'mastery.detail': '{level} - {correct} of {total} right',
+
+  'badges.heading': 'My badges ({earned}/{total})',
+  'badges.unlocked': 'New badge!',
+  'badges.progress': '{current} of {target}',
+
+  'celebration.levelUp': 'Level Up!',
+  'celebration.practice': 'Practice Time!',
+  'celebration.promoted': "Wow, you're ready for {level} questions!",
+  'celebration.demoted': "Let's play some fun {level} questions together!",
+
+  'pin.title': 'Grown-ups only',
+  'pin.choose': 'Choose a 4-digit parent PIN.',
+  'pin.enter': 'Enter the parent PIN.',
+  'pin.invalid': 'Please enter 4 digits.',
+  'pin.wrong': 'That PIN is not right.',
+  'pin.save': 'Save PIN',
+  'pin.unlock': 'Unlock',
+  'pin.overrideTitle': 'Allow more time',
+  'pin.addChildTitle': 'Add a child',
+  'pin.deleteChildTitle': 'Delete a child',
+
+  'dashboard.title': 'Parent Dashboard',
+  'dashboard.noChildren': 'No children added yet.',
+  'dashboard.timePerDay': 'Time per day',
+  'dashboard.accuracyPerTopic': 'Accuracy per topic',
+  'dashboard.noAnswers': 'No answers yet.',
+  'dashboard.correctOfTotal': '{correct} of {total} right',
+  'dashboard.sessions': 'Sessions',
+  'dashboard.noSessions': 'No sessions yet.',
+  'dashboard.started': 'Started',
+  'dashboard.length': 'Length',
+  'dashboard.level': 'Level',
+  'dashboard.topic': 'Topic',
+  'dashboard.score': 'Score',
+  'dashboard.curriculum': 'Curriculum',
+  'dashboard.transcripts': 'Transcripts',
+  'dashboard.screenTime': 'Screen time',
+  'dashboard.safety': 'Safety',
+  'dashboard.backup': 'Backup and export',
+  'dashboard.recordings': 'Recordings',
+  'dashboard.sounds': 'Sound Effects',
+
+  'transcripts.search': 'Search what was said...',
+  'transcripts.noMatches': 'Nothing matches your search.',
+  'transcripts.empty': 'No transcripts yet.',
+  'transcripts.correct': 'Correct',
+  'transcripts.notQuite': 'Not quite',
+
+  'curriculum.intro': 'Pick what {name} learns. Teachers can share packs as JSON files.',
+  'curriculum.summary': '{levels} levels, {topics} topics',
+  'curriculum.by': 'by {author}',
+  'curriculum.confirmRemove': 'Remove the "{name}" pack?',
+  'curriculum.remove': 'Remove {name}',
+  'curriculum.import': 'Import pack',
+  'curriculum.imported': 'Imported {file}.',
+  'curriculum.importFailed': "This pack couldn't be imported:",
+  'curriculum.moreErrors': '...and {count} more.',
+
+  'limits.intro': 'Set how long {name} can learn. Leave a box empty for no limit.',
+  'limits.maxSession': 'Longest class (minutes)',
+  'limits.daily': 'Minutes per day',
+  'limits.windows': 'Allowed times',
+  'limits.anyTime': 'Any time of day',
+  'limits.addWindow': 'Add time',
+  'limits.removeWindow': 'Remove time',
+  'limits.usedToday': 'Used today: {minutes}',
+
+  'safety.intro': "What to watch for in {name}'s classes. When something comes up, the teacher changes the subject. If the teacher says something unsuitable, the class is paused.",
+  'safety.topics': 'Blocked topics',
+  'safety.topic.violence': 'Violence',
+  'safety.topic.scary': 'Scary things',
+  'safety.topic.adult': 'Grown-up content',
+  'safety.topic.drugs': 'Alcohol and drugs',
+  'safety.topic.insults': 'Rude words',
+  'safety.blockedWords': 'Other blocked words (separate with commas)',
+  'safety.personalInfo': 'Watch for personal details like addresses, phone numbers and full names',
+  'safety.keepOnTopic': 'Keep the teacher on the chosen topic',
+  'safety.alerts': 'Alert log',
+  'safety.noAlerts': 'No alerts yet.',
+  'safety.blockedContent': 'Blocked content',
+  'safety.personalDetails': 'Personal details',
+  'safety.offTopic': 'Off topic',
+  'safety.detail.email': 'Email address',
+  'safety.detail.phone': 'Phone number',
+  'safety.detail.address': 'Address',
+  'safety.detail.name': 'Full name',
+  'safety.detail.request': 'Asked for personal details',
+  'safety.redirected': 'Subject changed',
+  'safety.paused': 'Class paused',
+  'backup.intro': 'Move progress to another device with a backup file, or download answers for a teacher.',
+  'backup.export': "Download {name}'s backup",
+  'backup.exportCsv': 'Download answers (CSV)',
+  'backup.import': 'Restore a backup',
+  'backup.conflict': '{name} is already on this device. What should happen?',
+  'backup.merge': 'Combine them',
+  'backup.mergeDetail': 'Keep the settings here and add the answers and classes from the backup.',
+  'backup.replace': 'Use the backup',
+  'backup.replaceDetail': 'Replace everything here with the backup.',
+  'backup.copy': 'Keep both',
+  'backup.copyDetail': 'Add the backup as another child.',
+  'backup.imported': 'Restored {name}.',
+  'backup.importFailed': "This backup couldn't be restored:",
+  'backup.notJson': 'The file could not be read. Choose a backup file downloaded from this app.',
+  'backup.notBackup': 'This file is not a Mimi backup.',
+  'backup.unsupportedVersion': 'This backup was made by a version of the app that this one cannot read.',
+  'backup.noProfile': 'The backup has no child in it.',
+  'recording.privacy': "Off by default. When on, the microphone audio of {name} and Mimi's voice are saved on this device only, never uploaded, and deleted automatically after the period you choose.",
+  'recording.enabled': 'Record the classes of {name}',
+  'recording.keepFor': 'Delete recordings after',
+  'recording.days': '{count} days',
+  'recording.none': 'No recordings yet.',
+  'recording.download': 'Download',
+  'recording.tracks': 'Separate tracks',
+  'recording.tracksDetail': 'Stereo file: the child on the left, Mimi on the right',
+  'recording.delete': 'Delete recording',
+  'recording.downloadFailed': 'The recording could not be downloaded.',
+  'recording.childGone': 'The recording belongs to a child who is no longer on this device.',
+  'recording.audioMissing': 'The audio of this recording could not be found.',
+  'recording.fileFailed': 'Something went wrong while making the audio file.',
+  'recording.unavailable': "Recording needs browser storage that isn't available here, such as in a private window.",
+
+  'sounds.intro': "Sounds for right answers, streaks, new levels, badges and the start and end of a class. Mimi's voice isn't affected.",
+  'sounds.theme': 'Theme',
+  'sounds.theme.chimes': 'Chimes',
+  'sounds.theme.arcade': 'Arcade',
+  'sounds.theme.marimba': 'Marimba',
+  'sounds.volume': 'Volume',
+  'sounds.preview': 'Try it',
+  'sounds.mute': 'Mute sound effects',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
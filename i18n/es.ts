@@ -0,0 +1,217 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  'app.online': 'EN LÍNEA',
+  'app.reconnecting': 'RECONECTANDO',
+  'app.offline': 'DESCONECTADO',
+  'app.greeting': '¡Hola {name}! Soy {teacher}.',
+  'app.greetingNoName': '¡Hola! Soy {teacher}.',
+  'app.welcomeBack': '¡Qué bueno verte otra vez! Tienes {stars}.',
+  'app.stars': '{count} estrellas',
+  'app.whatToLearn': '¿Qué quieres aprender?',
+  'app.askName': '¡Dime tu nombre para empezar a aprender!',
+  'app.ageLevel': 'Nivel por edad',
+  'app.adaptive': '{teacher} elige mi nivel: {state}',
+  'app.pushToTalk': 'Pulsar para hablar: {state}',
+  'app.tapToAnswer': 'Tocar para responder: {state}',
+  'app.on': 'SÍ',
+  'app.off': 'NO',
+  'app.chooseTopic': 'Elige un tema (opcional)',
+  'app.mix': 'Mezcla',
+  'app.classType': 'Clase',
+  'app.freePlay': 'Juego libre',
+  'app.lessonQuestions': '{count} preguntas',
+  'app.startClass': 'Empezar la clase',
+  'app.stopClass': 'Terminar la clase',
+  'app.wakingUp': 'Despertando a {teacher}...',
+  'app.findingTeacher': '¡Uy! Buscando a {teacher} otra vez...',
+  'app.stayThere': 'Quédate ahí, {teacher} vuelve en un momento.',
+  'app.topic': 'Tema: {topic}',
+  'app.lastTopic': 'Último: {topic}',
+  'app.level': 'Nivel: {level}',
+  'app.listen': 'Escucha con atención...',
+  'app.keepGoing': '¡Sigue, te estoy escuchando!',
+  'app.yourTurn': '¡Te toca hablar!',
+  'app.ohNo': '¡Oh, no!',
+  'app.couldNotConnect': '{teacher} no se pudo conectar. ¿Revisas tu internet?',
+  'app.tryAgain': 'Intentar otra vez',
+  'app.footer': 'Aprendizaje con IA seguro y amigable',
+  'app.parents': 'Padres',
+  'app.chooseTeacher': 'Elige a tu maestro',
+  'app.minutesLeft': 'Quedan {minutes} min',
+  'app.breakTime': '¡Hora de descansar!',
+  'app.sessionOver': '¡Hoy aprendiste mucho! Descansa la vista y ve a jugar.',
+  'app.dailyLimitReached': 'Ya se acabó el tiempo de clase de hoy. ¡Hasta mañana!',
+  'app.outsideWindow': '{teacher} está descansando ahora. ¡Vuelve más tarde!',
+  'app.parentOverride': 'Adultos: permitir una clase',
+  'app.askGrownUp': 'Pídele a un adulto que lo cambie',
+  'app.okay': '¡Vale!',
+  'app.classPaused': 'Clase en pausa',
+  'app.recording': 'Grabando',
+  'app.askGrownUpToCheck': 'Vamos a hacer una pequeña pausa. Pide a un adulto que venga a mirar.',
+
+  'visualizer.talking': '{teacher} está hablando...',
+  'visualizer.hearing': '¡Te oigo!',
+  'visualizer.listening': 'Te estoy escuchando...',
+  'visualizer.holdToTalk': 'Mantén pulsado el botón para hablar',
+  'visualizer.sleeping': 'Durmiendo',
+
+  'talk.hold': 'Mantén para hablar',
+  'talk.talking': 'Hablando...',
+  'talk.spaceBar': 'O mantén pulsada la barra espaciadora',
+
+  'lesson.progress': 'Pregunta {current} de {total}',
+  'lesson.complete': '¡Lección terminada!',
+  'lesson.score': '{correct} de {total} correctas',
+  'lesson.stars': '+{count} estrellas',
+  'lesson.topics': 'Temas',
+
+  'profile.whoIsLearning': '¿Quién aprende hoy?',
+  'profile.name': 'Nombre',
+  'profile.age': 'Edad',
+  'profile.language': 'Idioma',
+  'profile.secondLanguage': 'Aprender palabras también en',
+  'profile.noSecondLanguage': 'Sin segundo idioma',
+  'profile.addChild': 'Añadir niño',
+  'profile.edit': 'Editar',
+  'profile.delete': 'Borrar',
+  'profile.confirmDelete': '¿Borrar a {name} y todas sus estrellas?',
+  'common.save': 'Guardar',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+
+  'mastery.heading': 'Cosas que sé',
+  'mastery.learning': 'Aprendiendo',
+  'mastery.practicing': 'Casi lo tengo',
+  'mastery.mastered': '¡Me lo sé!',
+  'mastery.detail': '{level} - {correct} de {total} bien',
+
+  'badges.heading': 'Mis insignias ({earned}/{total})',
+  'badges.unlocked': '¡Nueva insignia!',
+  'badges.progress': '{current} de {target}',
+
+  'celebration.levelUp': '¡Subes de nivel!',
+  'celebration.practice': '¡A practicar!',
+  'celebration.promoted': '¡Guau, ya estás listo para preguntas de nivel {level}!',
+  'celebration.demoted': '¡Juguemos juntos con preguntas divertidas de nivel {level}!',
+
+  'pin.title': 'Solo para adultos',
+  'pin.choose': 'Elige un PIN de padres de 4 cifras.',
+  'pin.enter': 'Escribe el PIN de padres.',
+  'pin.invalid': 'Escribe 4 cifras.',
+  'pin.wrong': 'Ese PIN no es correcto.',
+  'pin.save': 'Guardar PIN',
+  'pin.unlock': 'Desbloquear',
+  'pin.overrideTitle': 'Dar más tiempo',
+  'pin.addChildTitle': 'Añadir un niño',
+  'pin.deleteChildTitle': 'Borrar un niño',
+
+  'dashboard.title': 'Panel para padres',
+  'dashboard.noChildren': 'Todavía no hay niños.',
+  'dashboard.timePerDay': 'Tiempo por día',
+  'dashboard.accuracyPerTopic': 'Aciertos por tema',
+  'dashboard.noAnswers': 'Todavía no hay respuestas.',
+  'dashboard.correctOfTotal': '{correct} de {total} bien',
+  'dashboard.sessions': 'Sesiones',
+  'dashboard.noSessions': 'Todavía no hay sesiones.',
+  'dashboard.started': 'Inicio',
+  'dashboard.length': 'Duración',
+  'dashboard.level': 'Nivel',
+  'dashboard.topic': 'Tema',
+  'dashboard.score': 'Puntos',
+  'dashboard.curriculum': 'Plan de estudios',
+  'dashboard.transcripts': 'Transcripciones',
+  'dashboard.screenTime': 'Tiempo de pantalla',
+  'dashboard.safety': 'Seguridad',
+  'dashboard.backup': 'Copia de seguridad y exportar',
+  'dashboard.recordings': 'Grabaciones',
+  'dashboard.sounds': 'Efectos de sonido',
+
+  'transcripts.search': 'Busca lo que se dijo...',
+  'transcripts.noMatches': 'No hay nada que coincida con tu búsqueda.',
+  'transcripts.empty': 'Todavía no hay transcripciones.',
+  'transcripts.correct': 'Correcto',
+  'transcripts.notQuite': 'Casi',
+
+  'curriculum.intro': 'Elige lo que aprende {name}. Los maestros pueden compartir paquetes como archivos JSON.',
+  'curriculum.summary': '{levels} niveles, {topics} temas',
+  'curriculum.by': 'de {author}',
+  'curriculum.confirmRemove': '¿Quitar el paquete "{name}"?',
+  'curriculum.remove': 'Quitar {name}',
+  'curriculum.import': 'Importar paquete',
+  'curriculum.imported': 'Se importó {file}.',
+  'curriculum.importFailed': 'No se pudo importar este paquete:',
+  'curriculum.moreErrors': '...y {count} más.',
+
+  'limits.intro': 'Elige cuánto tiempo puede aprender {name}. Deja una casilla vacía para no poner límite.',
+  'limits.maxSession': 'Clase más larga (minutos)',
+  'limits.daily': 'Minutos por día',
+  'limits.windows': 'Horarios permitidos',
+  'limits.anyTime': 'A cualquier hora',
+  'limits.addWindow': 'Añadir horario',
+  'limits.removeWindow': 'Quitar horario',
+  'limits.usedToday': 'Usado hoy: {minutes}',
+
+  'safety.intro': 'Qué vigilar en las clases de {name}. Si aparece algo, el docente cambia de tema. Si el docente dice algo inadecuado, la clase se pausa.',
+  'safety.topics': 'Temas bloqueados',
+  'safety.topic.violence': 'Violencia',
+  'safety.topic.scary': 'Cosas que dan miedo',
+  'safety.topic.adult': 'Contenido para adultos',
+  'safety.topic.drugs': 'Alcohol y drogas',
+  'safety.topic.insults': 'Palabras groseras',
+  'safety.blockedWords': 'Otras palabras bloqueadas (separadas por comas)',
+  'safety.personalInfo': 'Vigilar datos personales como direcciones, teléfonos y nombres completos',
+  'safety.keepOnTopic': 'Mantener al docente en el tema elegido',
+  'safety.alerts': 'Registro de alertas',
+  'safety.noAlerts': 'Todavía no hay alertas.',
+  'safety.blockedContent': 'Contenido bloqueado',
+  'safety.personalDetails': 'Datos personales',
+  'safety.offTopic': 'Fuera de tema',
+  'safety.detail.email': 'Correo electrónico',
+  'safety.detail.phone': 'Número de teléfono',
+  'safety.detail.address': 'Dirección',
+  'safety.detail.name': 'Nombre completo',
+  'safety.detail.request': 'Pidió datos personales',
+  'safety.redirected': 'Se cambió de tema',
+  'safety.paused': 'Clase en pausa',
+  'backup.intro': 'Pasa el progreso a otro dispositivo con una copia de seguridad, o descarga las respuestas para un profesor.',
+  'backup.export': 'Descargar la copia de {name}',
+  'backup.exportCsv': 'Descargar respuestas (CSV)',
+  'backup.import': 'Restaurar una copia',
+  'backup.conflict': '{name} ya está en este dispositivo. ¿Qué quieres hacer?',
+  'backup.merge': 'Combinarlos',
+  'backup.mergeDetail': 'Mantener los ajustes de aquí y añadir las respuestas y clases de la copia.',
+  'backup.replace': 'Usar la copia',
+  'backup.replaceDetail': 'Reemplazar todo lo de aquí por la copia.',
+  'backup.copy': 'Mantener ambos',
+  'backup.copyDetail': 'Añadir la copia como otro niño.',
+  'backup.imported': 'Se restauró a {name}.',
+  'backup.importFailed': 'No se pudo restaurar esta copia:',
+  'backup.notJson': 'No se pudo leer el archivo. Elige una copia de seguridad descargada de esta app.',
+  'backup.notBackup': 'Este archivo no es una copia de seguridad de Mimi.',
+  'backup.unsupportedVersion': 'Esta copia de seguridad es de una versión de la app que esta no puede leer.',
+  'backup.noProfile': 'La copia de seguridad no contiene ningún niño.',
+  'recording.privacy': 'Desactivado por defecto. Si se activa, el audio del micrófono de {name} y la voz de Mimi se guardan solo en este dispositivo, nunca se suben y se borran automáticamente tras el periodo que elijas.',
+  'recording.enabled': 'Grabar las clases de {name}',
+  'recording.keepFor': 'Borrar grabaciones después de',
+  'recording.days': '{count} días',
+  'recording.none': 'Aún no hay grabaciones.',
+  'recording.download': 'Descargar',
+  'recording.tracks': 'Pistas separadas',
+  'recording.tracksDetail': 'Archivo estéreo: el niño a la izquierda, Mimi a la derecha',
+  'recording.delete': 'Borrar grabación',
+  'recording.downloadFailed': 'No se pudo descargar la grabación.',
+  'recording.childGone': 'La grabación es de un niño que ya no está en este dispositivo.',
+  'recording.audioMissing': 'No se encontró el audio de esta grabación.',
+  'recording.fileFailed': 'Algo salió mal al crear el archivo de audio.',
+  'recording.unavailable': 'Grabar necesita almacenamiento del navegador que aquí no está disponible, como en una ventana privada.',
+
+  'sounds.intro': 'Sonidos para las respuestas correctas, las rachas, los niveles nuevos, las insignias y el inicio y el final de la clase. La voz de Mimi no cambia.',
+  'sounds.theme': 'Estilo',
+  'sounds.theme.chimes': 'Campanitas',
+  'sounds.theme.arcade': 'Arcade',
+  'sounds.theme.marimba': 'Marimba',
+  'sounds.volume': 'Volumen',
+  'sounds.preview': 'Probar',
+  'sounds.mute': 'Silenciar los efectos de sonido',
+};
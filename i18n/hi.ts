@@ -0,0 +1,217 @@
+import { Messages } from './en';
+
+export const hi: Messages = {
+  'app.online': 'ऑनलाइन',
+  'app.reconnecting': 'फिर से जुड़ रहे हैं',
+  'app.offline': 'ऑफ़लाइन',
+  'app.greeting': 'नमस्ते {name}! मैं {teacher} हूँ।',
+  'app.greetingNoName': 'नमस्ते! मैं {teacher} हूँ।',
+  'app.welcomeBack': 'फिर से स्वागत है! तुम्हारे पास {stars} हैं।',
+  'app.stars': '{count} सितारे',
+  'app.whatToLearn': 'आज तुम क्या सीखना चाहते हो?',
+  'app.askName': 'अपना नाम बताओ ताकि हम सीखना शुरू करें!',
+  'app.ageLevel': 'उम्र का स्तर',
+  'app.adaptive': 'मेरा स्तर {teacher} चुनें: {state}',
+  'app.pushToTalk': 'दबाकर बोलें: {state}',
+  'app.tapToAnswer': 'छूकर जवाब: {state}',
+  'app.on': 'चालू',
+  'app.off': 'बंद',
+  'app.chooseTopic': 'विषय चुनो (वैकल्पिक)',
+  'app.mix': 'मिला-जुला',
+  'app.classType': 'क्लास',
+  'app.freePlay': 'खुला खेल',
+  'app.lessonQuestions': '{count} सवाल',
+  'app.startClass': 'कक्षा शुरू करो',
+  'app.stopClass': 'कक्षा रोको',
+  'app.wakingUp': '{teacher} को जगा रहे हैं...',
+  'app.findingTeacher': 'अरे! {teacher} को फिर से ढूँढ रहे हैं...',
+  'app.stayThere': 'वहीं रहो, {teacher} बस एक पल में वापस आएँगे।',
+  'app.topic': 'विषय: {topic}',
+  'app.lastTopic': 'पिछला: {topic}',
+  'app.level': 'स्तर: {level}',
+  'app.listen': 'ध्यान से सुनो...',
+  'app.keepGoing': 'बोलते रहो, सब सुनाई दे रहा है!',
+  'app.yourTurn': 'अब तुम्हारी बारी है!',
+  'app.ohNo': 'अरे नहीं!',
+  'app.couldNotConnect': '{teacher} से जुड़ नहीं पाए। क्या इंटरनेट ठीक है?',
+  'app.tryAgain': 'फिर से कोशिश करो',
+  'app.footer': 'सुरक्षित और दोस्ताना AI शिक्षा',
+  'app.parents': 'माता-पिता',
+  'app.chooseTeacher': 'अपना शिक्षक चुनो',
+  'app.minutesLeft': '{minutes} मिनट बचे',
+  'app.breakTime': 'आराम का समय!',
+  'app.sessionOver': 'आज तुमने बहुत कुछ सीखा! अब आँखों को आराम दो और खेलने जाओ।',
+  'app.dailyLimitReached': 'आज की क्लास का समय पूरा हो गया। कल मिलते हैं!',
+  'app.outsideWindow': '{teacher} अभी आराम कर रहे हैं। बाद में आना!',
+  'app.parentOverride': 'बड़ों के लिए: क्लास की अनुमति दें',
+  'app.askGrownUp': 'इसे बदलने के लिए किसी बड़े से पूछो',
+  'app.okay': 'ठीक है!',
+  'app.classPaused': 'क्लास रुकी हुई है',
+  'app.recording': 'रिकॉर्डिंग',
+  'app.askGrownUpToCheck': 'चलो थोड़ा रुकते हैं। किसी बड़े को बुलाओ ताकि वे देख सकें।',
+
+  'visualizer.talking': '{teacher} बोल रहे हैं...',
+  'visualizer.hearing': 'तुम्हारी आवाज़ आ रही है!',
+  'visualizer.listening': 'तुम्हारी बात सुन रहे हैं...',
+  'visualizer.holdToTalk': 'बोलने के लिए बटन दबाकर रखें',
+  'visualizer.sleeping': 'सो रही है',
+
+  'talk.hold': 'दबाकर बोलें',
+  'talk.talking': 'बोल रहे हैं...',
+  'talk.spaceBar': 'या स्पेस बार दबाकर रखें',
+
+  'lesson.progress': 'सवाल {current} / {total}',
+  'lesson.complete': 'पाठ पूरा हुआ!',
+  'lesson.score': '{total} में से {correct} सही',
+  'lesson.stars': '+{count} सितारे',
+  'lesson.topics': 'विषय',
+
+  'profile.whoIsLearning': 'आज कौन सीख रहा है?',
+  'profile.name': 'नाम',
+  'profile.age': 'उम्र',
+  'profile.language': 'भाषा',
+  'profile.secondLanguage': 'इस भाषा में भी शब्द सीखो',
+  'profile.noSecondLanguage': 'कोई दूसरी भाषा नहीं',
+  'profile.addChild': 'बच्चा जोड़ें',
+  'profile.edit': 'बदलें',
+  'profile.delete': 'हटाएँ',
+  'profile.confirmDelete': '{name} और उनके सारे सितारे हटाएँ?',
+  'common.save': 'सहेजें',
+  'common.cancel': 'रद्द करें',
+  'common.close': 'बंद करें',
+
+  'mastery.heading': 'जो मुझे आता है',
+  'mastery.learning': 'सीख रहे हैं',
+  'mastery.practicing': 'लगभग आ गया',
+  'mastery.mastered': 'मुझे आता है!',
+  'mastery.detail': '{level} - {total} में से {correct} सही',
+
+  'badges.heading': 'मेरे बैज ({earned}/{total})',
+  'badges.unlocked': 'नया बैज!',
+  'badges.progress': '{target} में से {current}',
+
+  'celebration.levelUp': 'अगला स्तर!',
+  'celebration.practice': 'अभ्यास का समय!',
+  'celebration.promoted': 'वाह, तुम {level} सवालों के लिए तैयार हो!',
+  'celebration.demoted': 'चलो साथ में कुछ मज़ेदार {level} सवाल खेलते हैं!',
+
+  'pin.title': 'सिर्फ़ बड़ों के लिए',
+  'pin.choose': 'माता-पिता के लिए 4 अंकों का PIN चुनें।',
+  'pin.enter': 'माता-पिता का PIN डालें।',
+  'pin.invalid': 'कृपया 4 अंक डालें।',
+  'pin.wrong': 'यह PIN सही नहीं है।',
+  'pin.save': 'PIN सहेजें',
+  'pin.unlock': 'खोलें',
+  'pin.overrideTitle': 'और समय दें',
+  'pin.addChildTitle': 'बच्चा जोड़ें',
+  'pin.deleteChildTitle': 'बच्चा हटाएँ',
+
+  'dashboard.title': 'माता-पिता का डैशबोर्ड',
+  'dashboard.noChildren': 'अभी कोई बच्चा नहीं जोड़ा गया है।',
+  'dashboard.timePerDay': 'हर दिन का समय',
+  'dashboard.accuracyPerTopic': 'हर विषय में सही जवाब',
+  'dashboard.noAnswers': 'अभी कोई जवाब नहीं।',
+  'dashboard.correctOfTotal': '{total} में से {correct} सही',
+  'dashboard.sessions': 'सत्र',
+  'dashboard.noSessions': 'अभी कोई सत्र नहीं।',
+  'dashboard.started': 'शुरुआत',
+  'dashboard.length': 'अवधि',
+  'dashboard.level': 'स्तर',
+  'dashboard.topic': 'विषय',
+  'dashboard.score': 'स्कोर',
+  'dashboard.curriculum': 'पाठ्यक्रम',
+  'dashboard.transcripts': 'बातचीत',
+  'dashboard.screenTime': 'स्क्रीन टाइम',
+  'dashboard.safety': 'सुरक्षा',
+  'dashboard.backup': 'बैकअप और एक्सपोर्ट',
+  'dashboard.recordings': 'रिकॉर्डिंग',
+  'dashboard.sounds': 'साउंड इफ़ेक्ट',
+
+  'transcripts.search': 'जो कहा गया उसे खोजें...',
+  'transcripts.noMatches': 'आपकी खोज से कुछ नहीं मिला।',
+  'transcripts.empty': 'अभी कोई बातचीत नहीं।',
+  'transcripts.correct': 'सही',
+  'transcripts.notQuite': 'लगभग',
+
+  'curriculum.intro': 'चुनें कि {name} क्या सीखे। शिक्षक पैक JSON फ़ाइलों के रूप में साझा कर सकते हैं।',
+  'curriculum.summary': '{levels} स्तर, {topics} विषय',
+  'curriculum.by': '{author} द्वारा',
+  'curriculum.confirmRemove': '"{name}" पैक हटाएँ?',
+  'curriculum.remove': '{name} हटाएँ',
+  'curriculum.import': 'पैक आयात करें',
+  'curriculum.imported': '{file} आयात हो गया।',
+  'curriculum.importFailed': 'यह पैक आयात नहीं हो सका:',
+  'curriculum.moreErrors': '...और {count} और।',
+
+  'limits.intro': 'तय करें कि {name} कितनी देर सीख सकते हैं। कोई सीमा न रखने के लिए खाना खाली छोड़ दें।',
+  'limits.maxSession': 'सबसे लंबी क्लास (मिनट)',
+  'limits.daily': 'रोज़ के मिनट',
+  'limits.windows': 'अनुमति वाला समय',
+  'limits.anyTime': 'दिन में कभी भी',
+  'limits.addWindow': 'समय जोड़ें',
+  'limits.removeWindow': 'समय हटाएँ',
+  'limits.usedToday': 'आज इस्तेमाल: {minutes}',
+
+  'safety.intro': '{name} की क्लास में किन बातों पर ध्यान रखना है। कुछ ऐसा आने पर शिक्षक विषय बदल देते हैं। अगर शिक्षक खुद कुछ गलत कहें, तो क्लास रोक दी जाती है।',
+  'safety.topics': 'रोके गए विषय',
+  'safety.topic.violence': 'हिंसा',
+  'safety.topic.scary': 'डरावनी चीज़ें',
+  'safety.topic.adult': 'बड़ों वाली सामग्री',
+  'safety.topic.drugs': 'शराब और नशा',
+  'safety.topic.insults': 'बुरे शब्द',
+  'safety.blockedWords': 'और रोके गए शब्द (कॉमा से अलग करें)',
+  'safety.personalInfo': 'पता, फ़ोन नंबर और पूरे नाम जैसी निजी जानकारी पर ध्यान रखें',
+  'safety.keepOnTopic': 'शिक्षक को चुने हुए विषय पर रखें',
+  'safety.alerts': 'अलर्ट लॉग',
+  'safety.noAlerts': 'अभी कोई अलर्ट नहीं।',
+  'safety.blockedContent': 'रोकी गई बात',
+  'safety.personalDetails': 'निजी जानकारी',
+  'safety.offTopic': 'विषय से हटकर',
+  'safety.detail.email': 'ईमेल पता',
+  'safety.detail.phone': 'फ़ोन नंबर',
+  'safety.detail.address': 'पता',
+  'safety.detail.name': 'पूरा नाम',
+  'safety.detail.request': 'निजी जानकारी माँगी गई',
+  'safety.redirected': 'विषय बदला गया',
+  'safety.paused': 'क्लास रोकी गई',
+  'backup.intro': 'बैकअप फ़ाइल से प्रगति दूसरे डिवाइस पर ले जाएँ, या शिक्षक के लिए जवाब डाउनलोड करें।',
+  'backup.export': '{name} का बैकअप डाउनलोड करें',
+  'backup.exportCsv': 'जवाब डाउनलोड करें (CSV)',
+  'backup.import': 'बैकअप वापस लाएँ',
+  'backup.conflict': '{name} पहले से इस डिवाइस पर है। क्या करना है?',
+  'backup.merge': 'दोनों को मिलाएँ',
+  'backup.mergeDetail': 'यहाँ की सेटिंग रखें और बैकअप के जवाब और क्लास जोड़ें।',
+  'backup.replace': 'बैकअप इस्तेमाल करें',
+  'backup.replaceDetail': 'यहाँ का सब कुछ बैकअप से बदल दें।',
+  'backup.copy': 'दोनों रखें',
+  'backup.copyDetail': 'बैकअप को एक और बच्चे के रूप में जोड़ें।',
+  'backup.imported': '{name} वापस आ गए।',
+  'backup.importFailed': 'यह बैकअप वापस नहीं लाया जा सका:',
+  'backup.notJson': 'फ़ाइल पढ़ी नहीं जा सकी। इस ऐप से डाउनलोड की गई बैकअप फ़ाइल चुनें।',
+  'backup.notBackup': 'यह फ़ाइल Mimi का बैकअप नहीं है।',
+  'backup.unsupportedVersion': 'यह बैकअप ऐप के ऐसे संस्करण से बना है जिसे यह संस्करण नहीं पढ़ सकता।',
+  'backup.noProfile': 'इस बैकअप में कोई बच्चा नहीं है।',
+  'recording.privacy': 'यह पहले से बंद रहता है। चालू करने पर {name} के माइक्रोफ़ोन की आवाज़ और Mimi की आवाज़ सिर्फ़ इसी डिवाइस पर सेव होती हैं, कभी अपलोड नहीं होतीं, और आपके चुने समय के बाद अपने-आप मिट जाती हैं।',
+  'recording.enabled': '{name} की क्लास रिकॉर्ड करें',
+  'recording.keepFor': 'रिकॉर्डिंग इतने समय बाद मिटाएँ',
+  'recording.days': '{count} दिन',
+  'recording.none': 'अभी कोई रिकॉर्डिंग नहीं है।',
+  'recording.download': 'डाउनलोड करें',
+  'recording.tracks': 'अलग-अलग ट्रैक',
+  'recording.tracksDetail': 'स्टीरियो फ़ाइल: बच्चा बाईं ओर, Mimi दाईं ओर',
+  'recording.delete': 'रिकॉर्डिंग मिटाएँ',
+  'recording.downloadFailed': 'रिकॉर्डिंग डाउनलोड नहीं हो सकी।',
+  'recording.childGone': 'यह रिकॉर्डिंग ऐसे बच्चे की है जो अब इस डिवाइस पर नहीं है।',
+  'recording.audioMissing': 'इस रिकॉर्डिंग की आवाज़ नहीं मिली।',
+  'recording.fileFailed': 'ऑडियो फ़ाइल बनाते समय कुछ गड़बड़ हो गई।',
+  'recording.unavailable': 'रिकॉर्डिंग के लिए ब्राउज़र स्टोरेज चाहिए, जो यहाँ उपलब्ध नहीं है, जैसे प्राइवेट विंडो में।',
+
+  'sounds.intro': 'सही जवाब, लगातार सही जवाब, नए लेवल, बैज और क्लास के शुरू और खत्म होने की आवाज़ें। Mimi की आवाज़ पर असर नहीं पड़ता।',
+  'sounds.theme': 'थीम',
+  'sounds.theme.chimes': 'घंटियाँ',
+  'sounds.theme.arcade': 'आर्केड',
+  'sounds.theme.marimba': 'मरिम्बा',
+  'sounds.volume': 'आवाज़',
+  'sounds.preview': 'सुनें',
+  'sounds.mute': 'साउंड इफ़ेक्ट बंद करें',
+};
@@ -0,0 +1,57 @@
+import React, { createContext, useContext } from 'react';
+import { LanguageCode } from '../types';
+import { en, MessageKey, Messages } from './en';
+import { es } from './es';
+import { hi } from './hi';
+
+export type { MessageKey } from './en';
+
+export interface LanguageInfo {
+  nativeName: string;  // Shown in the language picker
+  englishName: string; // Used in Mimi's instructions
+  locale: string;      // For dates and numbers
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: { nativeName: 'English', englishName: 'English', locale: 'en-US' },
+  es: { nativeName: 'Español', englishName: 'Spanish', locale: 'es' },
+  hi: { nativeName: 'हिन्दी', englishName: 'Hindi', locale: 'hi-IN' },
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as LanguageCode[];
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+const MESSAGES: Record<LanguageCode, Messages> = { en, es, hi };
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && value in LANGUAGES;
+
+type Vars = Record<string, string | number>;
+
+export interface Translator {
+  language: LanguageCode;
+  locale: string;
+  t: (key: MessageKey, vars?: Vars) => string;
+  // Like `t`, but placeholders can be filled with elements such as <b>
+  rich: (key: MessageKey, vars: Record<string, React.ReactNode>) => React.ReactNode;
+}
+
+export function createTranslator(language: LanguageCode): Translator {
+  const messages = MESSAGES[language] ?? en;
+  const message = (key: MessageKey) => messages[key] ?? en[key];
+
+  return {
+    language,
+    locale: LANGUAGES[language].locale,
+    t: (key, vars) => message(key).replace(/\{(\w+)\}/g, (match, name) => (vars && name in vars ? String(vars[name]) : match)),
+    rich: (key, vars) => {
+      const parts = message(key).split(/\{(\w+)\}/);
+      // Odd parts are placeholder names
+      return React.createElement(React.Fragment, null, ...parts.map((part, i) => (i % 2 ? vars[part] ?? `{${part}}` : part)));
+    },
+  };
+}
+
+export const I18nContext = createContext<Translator>(createTranslator(DEFAULT_LANGUAGE));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,64 @@
+/**
+ * The app's IndexedDB database. Every object store is keyed by `id` and has a
+ * `profileId` index, so everything saved for a child can be found and deleted.
+ */
+const DB_NAME = 'mimi';
+// Bump when adding an object store; onupgradeneeded creates any that are missing
+const DB_VERSION = 3;
+const OBJECT_STORES = ['evaluations', 'sessions', 'transcripts', 'safetyAlerts', 'recordings', 'recordingAudio'];
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs the writes in one transaction, resolving once they are all committed
+export const write = (db: IDBDatabase, stores: string[], work: (tx: IDBTransaction) => void): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    work(tx);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    for (const name of OBJECT_STORES) {
+      if (!db.objectStoreNames.contains(name)) {
+        db.createObjectStore(name, { keyPath: 'id' }).createIndex('profileId', 'profileId');
+      }
+    }
+  };
+  return requestResult(request);
+};
+
+let database: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the database once and shares it. Rejects when IndexedDB is missing
+ * or refuses to open, as in some private windows.
+ */
+export function getDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = typeof indexedDB === 'undefined'
+      ? Promise.reject(new Error('IndexedDB is not available'))
+      : openDatabase();
+  }
+  return database;
+}
+
+/**
+ * Deletes everything saved for a child, in every object store.
+ */
+export const deleteProfileData = (db: IDBDatabase, profileId: string): Promise<void> =>
+  write(db, OBJECT_STORES, tx => {
+    for (const name of OBJECT_STORES) {
+      const store = tx.objectStore(name);
+      const keys = store.index('profileId').getAllKeys(profileId);
+      keys.onsuccess = () => keys.result.forEach(key => store.delete(key));
+    }
+  });
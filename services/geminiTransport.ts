@@ -0,0 +1,14 @@
+import { GoogleGenAI } from '@google/genai';
+import { LiveTransport } from './liveTransport';
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+/**
+ * Transport backed by the Gemini Live API.
+ */
+export const createGeminiTransport = (apiKey = process.env.API_KEY): LiveTransport => ({
+  connect: ({ config, callbacks }) => {
+    const ai = new GoogleGenAI({ apiKey });
+    return ai.live.connect({ model: LIVE_MODEL, config, callbacks });
+  },
+});
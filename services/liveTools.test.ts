@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Type } from '@google/genai';
+import { SessionSettings } from '../types';
+import { createToolRegistry, defineTool, LiveToolContext } from './liveTools';
+
+const context: LiveToolContext = { sessionId: 's1', settings: {} as SessionSettings };
+
+// A tool taking one whole number, `count`, whose handler is given by the test
+const countTool = (name: string, handler: (count: number) => unknown) => defineTool({
+  declaration: { name, parameters: { type: Type.OBJECT, properties: { count: { type: Type.INTEGER } } } },
+  parseArgs: args => Number.isInteger(args.count) ? { args: args.count as number } : { error: '"count" must be a whole number.' },
+  handler,
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('createToolRegistry', () => {
+  it('sends the handler\'s output back under the call\'s id', async () => {
+    const registry = createToolRegistry([countTool('double', count => count * 2)]);
+    expect(await registry.call({ id: 'c1', name: 'double', args: { count: 3 } }, context))
+      .toEqual({ id: 'c1', name: 'double', response: { output: 6 } });
+  });
+
+  it('answers "ok" when the handler returns nothing', async () => {
+    const registry = createToolRegistry([countTool('note', () => undefined)]);
+    expect((await registry.call({ id: 'c1', name: 'note', args: { count: 1 } }, context)).response).toEqual({ output: 'ok' });
+  });
+
+  it('tells the model about tools it does not have', async () => {
+    const registry = createToolRegistry([countTool('double', count => count * 2)]);
+    expect(await registry.call({ id: 'c1', name: 'triple', args: { count: 3 } }, context))
+      .toEqual({ id: 'c1', name: 'triple', response: { error: 'Unknown tool "triple".' } });
+  });
+
+  it('tells the model what was wrong with its arguments without running the handler', async () => {
+    const handler = vi.fn();
+    const registry = createToolRegistry([countTool('double', handler)]);
+    expect((await registry.call({ id: 'c1', name: 'double', args: { count: 'three' } }, context)).response)
+      .toEqual({ error: '"count" must be a whole number.' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('turns a handler that throws into an error for the model', async () => {
+    const registry = createToolRegistry([
+      countTool('fails', () => { throw new Error('No more stars'); }),
+      countTool('rejects', () => Promise.reject('offline')),
+    ]);
+    expect((await registry.call({ id: 'c1', name: 'fails', args: { count: 1 } }, context)).response).toEqual({ error: 'No more stars' });
+    expect((await registry.call({ id: 'c2', name: 'rejects', args: { count: 1 } }, context)).response).toEqual({ error: 'offline' });
+  });
+
+  it('uses the last of several tools with the same name', async () => {
+    const registry = createToolRegistry([countTool('count', () => 'first'), countTool('other', () => 'other'), countTool('count', () => 'last')]);
+    expect(registry.declarations.map(d => d.name)).toEqual(['count', 'other']);
+    expect((await registry.call({ id: 'c1', name: 'count', args: { count: 1 } }, context)).response).toEqual({ output: 'last' });
+  });
+});
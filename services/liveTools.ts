@@ -0,0 +1,96 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse } from '@google/genai';
+import { SessionSettings } from '../types';
+
+// What a tool handler knows about the session that called it
+export interface LiveToolContext {
+  sessionId: string;
+  settings: SessionSettings; // Latest settings; difficulty may have changed mid-session
+}
+
+// Arguments the model sent, checked and converted, or a message telling it what was wrong
+export interface ToolArguments<Args> {
+  args?: Args;
+  error?: string;
+}
+
+/**
+ * A function the model can call during a live session. The handler's result
+ * is sent back to the model as the call's output.
+ */
+export interface LiveTool<Args = unknown> {
+  declaration: FunctionDeclaration;
+  parseArgs: (args: Record<string, unknown>) => ToolArguments<Args>;
+  handler: (args: Args, context: LiveToolContext) => unknown | Promise<unknown>;
+}
+
+export interface ToolRegistry {
+  declarations: FunctionDeclaration[];
+  call: (call: FunctionCall, context: LiveToolContext) => Promise<FunctionResponse>;
+}
+
+// What running a tool gives back: the handler's output, or a message telling the model what was wrong
+export interface ToolResult {
+  output?: unknown;
+  error?: string;
+}
+
+/**
+ * A tool ready to be registered. Its argument type is checked inside `run`,
+ * so tools with different arguments can be kept in one list.
+ */
+export interface RegisteredTool {
+  declaration: FunctionDeclaration;
+  run: (args: Record<string, unknown>, context: LiveToolContext) => Promise<ToolResult>;
+}
+
+/**
+ * Pairs a tool's parser with its handler. The argument type is inferred from
+ * the parser and checked against the handler here, where both are known.
+ */
+export const defineTool = <Args>({ declaration, parseArgs, handler }: LiveTool<Args>): RegisteredTool => ({
+  declaration,
+  run: async (args, context) => {
+    const parsed = parseArgs(args);
+    if (parsed.error || parsed.args === undefined) {
+      return { error: parsed.error ?? 'Invalid arguments.' };
+    }
+    return { output: await handler(parsed.args, context) };
+  },
+});
+
+/**
+ * Looks tools up by name and turns every call into a response for the model.
+ * Later tools replace earlier ones with the same name.
+ */
+export const createToolRegistry = (tools: RegisteredTool[]): ToolRegistry => {
+  const byName = new Map<string, RegisteredTool>();
+  for (const tool of tools) {
+    const name = tool.declaration.name;
+    if (!name) continue;
+    if (byName.has(name)) console.warn(`Tool "${name}" is defined more than once; using the last one`);
+    byName.set(name, tool);
+  }
+
+  return {
+    declarations: [...byName.values()].map(tool => tool.declaration),
+    // The handler starts synchronously, so its side effects happen before the rest of the message is handled
+    call: async ({ id, name = '', args = {} }, context) => {
+      const respond = (response: Record<string, unknown>): FunctionResponse => ({ id, name, response });
+
+      const tool = byName.get(name);
+      if (!tool) {
+        console.warn(`Model called unknown tool "${name}"`);
+        return respond({ error: `Unknown tool "${name}".` });
+      }
+
+      try {
+        const { output, error } = await tool.run(args, context);
+        if (error) return respond({ error });
+        return respond({ output: output ?? 'ok' });
+      } catch (e) {
+        console.error(`Tool "${name}" failed`, e);
+        return respond({ error: e instanceof Error ? e.message : String(e) });
+      }
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import {
+  LiveCallbacks,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+
+/**
+ * An open live session. Matches the methods of the GenAI SDK's `Session`
+ * that the app uses, so the SDK session can be returned as-is.
+ */
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+export interface LiveConnectOptions {
+  config: LiveConnectConfig;
+  callbacks: LiveCallbacks;
+}
+
+/**
+ * Opens live sessions. `useGeminiLive` depends on this rather than the SDK so
+ * the UI can run against a scripted stand-in without network access.
+ */
+export interface LiveTransport {
+  connect(options: LiveConnectOptions): Promise<LiveSession>;
+}
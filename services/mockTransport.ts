@@ -0,0 +1,212 @@
+import { LiveServerMessage } from '@google/genai';
+import { LiveSession, LiveTransport } from './liveTransport';
+import { encode } from '../utils/audio';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const CHUNK_MS = 100;
+
+// One scripted event played back by the mock session
+export type MockStep =
+  | { kind: 'speak'; text: string; durationMs: number }   // Mimi talks: audio chunks plus output transcript
+  | { kind: 'listen'; text: string; durationMs: number }  // Child answers: silence, then input transcript
+  | { kind: 'evaluate'; isCorrect: boolean; topic?: string } // reportEvaluation tool call, waits for the response
+  | { kind: 'tool'; name: string; args: Record<string, unknown> } // Any other tool call, waits for the response
+  | { kind: 'interrupt' }
+  | { kind: 'error'; message: string }
+  | { kind: 'close' };
+
+export interface MockScript {
+  steps: MockStep[];
+  loop?: boolean;
+}
+
+export const MOCK_SCRIPTS: Record<string, MockScript> = {
+  // A short happy lesson with one wrong answer and a barge-in, repeated forever
+  lesson: {
+    loop: true,
+    steps: [
+      { kind: 'speak', text: 'Hi sweetie, ready? What color is a banana?', durationMs: 2500 },
+      { kind: 'listen', text: 'Yellow!', durationMs: 2000 },
+      { kind: 'evaluate', isCorrect: true, topic: 'Colors' },
+      { kind: 'speak', text: 'Great job! A banana is yellow. What does a cat say?', durationMs: 3000 },
+      { kind: 'listen', text: 'Woof woof', durationMs: 2000 },
+      { kind: 'evaluate', isCorrect: false, topic: 'Animals' },
+      { kind: 'speak', text: 'Good try! A dog says woof, and a cat says meow. How many', durationMs: 1500 },
+      { kind: 'interrupt' },
+      { kind: 'listen', text: 'Meow!', durationMs: 1500 },
+      { kind: 'evaluate', isCorrect: true, topic: 'Animals' },
+      { kind: 'speak', text: 'Yes, meow! You are so clever.', durationMs: 2000 },
+      { kind: 'tool', name: 'showShape', args: { shape: 'triangle', color: 'green' } },
+      { kind: 'speak', text: 'Look at the screen! What shape is this?', durationMs: 2500 },
+      { kind: 'listen', text: 'Triangle!', durationMs: 1500 },
+      { kind: 'evaluate', isCorrect: true, topic: 'Shapes' },
+    ],
+  },
+  // The child shares personal details and a blocked word, for testing the safety checks
+  safety: {
+    steps: [
+      { kind: 'speak', text: 'Hi sweetie! What is your favorite animal?', durationMs: 2500 },
+      { kind: 'listen', text: 'A cat! My phone number is 555 867 5309', durationMs: 2500 },
+      { kind: 'speak', text: 'Cats are lovely! Let us keep numbers like that private. What does a cow say?', durationMs: 3500 },
+      { kind: 'listen', text: 'Moo! I have a toy gun', durationMs: 2000 },
+      { kind: 'evaluate', isCorrect: true, topic: 'Animals' },
+      { kind: 'speak', text: 'Yes, moo! What color is the grass?', durationMs: 2500 },
+    ],
+  },
+  // Mimi offers answers to tap, for trying tap-to-answer mode
+  tap: {
+    loop: true,
+    steps: [
+      { kind: 'tool', name: 'offerChoices', args: { choices: [{ text: 'Cat', emoji: '🐱' }, { text: 'Dog', emoji: '🐶' }, { text: 'Cow', emoji: '🐮' }] } },
+      { kind: 'speak', text: 'Which animal says meow? Is it the cat, the dog or the cow?', durationMs: 3500 },
+      { kind: 'listen', text: 'Cat', durationMs: 4000 },
+      { kind: 'evaluate', isCorrect: true, topic: 'Animals' },
+      { kind: 'tool', name: 'offerChoices', args: { choices: [{ text: 'Red', color: 'red' }, { text: 'Blue', color: 'blue' }] } },
+      { kind: 'speak', text: 'Yes, the cat! Now, what color is the sky? Red or blue?', durationMs: 3500 },
+      { kind: 'listen', text: 'Blue', durationMs: 4000 },
+      { kind: 'evaluate', isCorrect: true, topic: 'Colors' },
+    ],
+  },
+  // Fails part way through, for testing the error and reconnect flows
+  flaky: {
+    steps: [
+      { kind: 'speak', text: 'Hi sweetie, what color is the sky?', durationMs: 2000 },
+      { kind: 'listen', text: 'Blue', durationMs: 1500 },
+      { kind: 'evaluate', isCorrect: true, topic: 'Colors' },
+      { kind: 'speak', text: 'Yes, blue! Now', durationMs: 800 },
+      { kind: 'error', message: 'Mock network failure' },
+    ],
+  },
+};
+
+const message = (fields: Partial<LiveServerMessage>): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), fields);
+
+/**
+ * Generates a warbling tone that stands in for Mimi's voice as base64 PCM16.
+ */
+const createToneChunk = (durationMs: number, offsetMs: number): string => {
+  const length = Math.round((OUTPUT_SAMPLE_RATE * durationMs) / 1000);
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = (offsetMs / 1000) + i / OUTPUT_SAMPLE_RATE;
+    const syllables = 0.5 + 0.5 * Math.sin(2 * Math.PI * 4 * t); // ~4 syllables per second
+    const pitch = 220 + 40 * Math.sin(2 * Math.PI * 0.7 * t);
+    samples[i] = Math.sin(2 * Math.PI * pitch * t) * syllables * 0.2 * 0x7FFF;
+  }
+  return encode(new Uint8Array(samples.buffer));
+};
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  };
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * In-process stand-in for the Gemini Live API that plays back a canned
+ * script of audio, transcripts, tool calls, interruptions and errors.
+ * Audio sent by the app is accepted and ignored.
+ */
+export const createMockTransport = (script: MockScript = MOCK_SCRIPTS.lesson): LiveTransport => ({
+  connect: async ({ callbacks }) => {
+    const abort = new AbortController();
+    const pendingToolCalls = new Map<string, () => void>();
+    let callCount = 0;
+
+    // Sends a tool call and resolves once the app answers it
+    const callTool = async (name: string, args: Record<string, unknown>) => {
+      const id = `mock-call-${++callCount}`;
+      const answered = new Promise<void>((resolve, reject) => {
+        pendingToolCalls.set(id, resolve);
+        abort.signal.addEventListener('abort', () => reject(abort.signal.reason), { once: true });
+      });
+      callbacks.onmessage(message({ toolCall: { functionCalls: [{ id, name, args }] } }));
+      await answered;
+      pendingToolCalls.delete(id);
+    };
+
+    const session: LiveSession = {
+      sendRealtimeInput: () => {},
+      sendClientContent: (params) => console.log('[mock] client content', params),
+      sendToolResponse: ({ functionResponses }) => {
+        const responses = Array.isArray(functionResponses) ? functionResponses : [functionResponses];
+        for (const response of responses) {
+          if (response.id) pendingToolCalls.get(response.id)?.();
+        }
+      },
+      close: () => {
+        if (abort.signal.aborted) return;
+        abort.abort();
+        callbacks.onclose?.(new CloseEvent('close'));
+      },
+    };
+
+    const playStep = async (step: MockStep) => {
+      switch (step.kind) {
+        case 'speak': {
+          const words = step.text.split(' ');
+          const chunks = Math.max(1, Math.round(step.durationMs / CHUNK_MS));
+          for (let i = 0; i < chunks; i++) {
+            // Spread the transcript across the audio like the real server does
+            const from = Math.floor((i * words.length) / chunks);
+            const to = Math.floor(((i + 1) * words.length) / chunks);
+            const text = words.slice(from, to).join(' ');
+            callbacks.onmessage(message({
+              serverContent: {
+                modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: createToneChunk(CHUNK_MS, i * CHUNK_MS) } }] },
+                outputTranscription: text ? { text: `${text} ` } : undefined,
+              },
+            }));
+            await wait(CHUNK_MS, abort.signal);
+          }
+          callbacks.onmessage(message({ serverContent: { turnComplete: true } }));
+          break;
+        }
+        case 'listen':
+          await wait(step.durationMs, abort.signal);
+          callbacks.onmessage(message({ serverContent: { inputTranscription: { text: step.text } } }));
+          break;
+        case 'evaluate':
+          await callTool('reportEvaluation', { isCorrect: step.isCorrect, topic: step.topic });
+          break;
+        case 'tool':
+          await callTool(step.name, step.args);
+          break;
+        case 'interrupt':
+          callbacks.onmessage(message({ serverContent: { interrupted: true } }));
+          break;
+        case 'error':
+          abort.abort();
+          callbacks.onerror?.(new ErrorEvent('error', { message: step.message }));
+          break;
+        case 'close':
+          session.close();
+          break;
+      }
+    };
+
+    const run = async () => {
+      await wait(300, abort.signal);
+      callbacks.onopen?.();
+      do {
+        for (const step of script.steps) {
+          if (abort.signal.aborted) return;
+          await playStep(step);
+        }
+      } while (script.loop);
+    };
+
+    run().catch(e => {
+      if (!abort.signal.aborted) console.error('[mock] script failed', e);
+    });
+
+    return session;
+  },
+});
@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionRecord } from '../types';
+import { loadProfileStore, ProfileStore, saveProfileStore, SCHEMA_VERSION } from './profileStorage';
+import { getRecordStore } from './recordStore';
+import { alert, evaluation, profile, session, turn } from '../test/fixtures';
+
+// Without IndexedDB in Node, history goes to the record store's localStorage fallback
+let saved: Map<string, string>;
+beforeEach(() => {
+  saved = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => saved.get(key) ?? null,
+    setItem: (key: string, value: string) => void saved.set(key, value),
+    removeItem: (key: string) => void saved.delete(key),
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+const STORE_KEY = 'mimi_profile_store';
+const BACKUP_KEY = 'mimi_profile_store_backup';
+const RECORDS_KEY = 'mimi_records_v1';
+
+const readJson = (key: string) => JSON.parse(saved.get(key) ?? 'null');
+const save = (key: string, data: unknown) => saved.set(key, JSON.stringify(data));
+
+describe('loadProfileStore', () => {
+  it('starts empty when nothing was saved', async () => {
+    expect(await loadProfileStore()).toEqual({ store: { activeProfileId: null, profiles: [] } });
+  });
+
+  it('turns progress from v1 into a profile and keeps the completed topics', async () => {
+    save('mimi_user_progress_v1', { difficulty: 'Easy', stars: 7, completedTopics: ['Colors'] });
+
+    const { store, error } = await loadProfileStore();
+    expect(error).toBeUndefined();
+    expect(store.profiles).toHaveLength(1);
+    const [child] = store.profiles;
+    expect(store.activeProfileId).toBe(child.id);
+    expect(child).toMatchObject({ name: 'Little Learner', avatar: 'cat', evaluations: [], sessions: [] });
+    expect(child.progress).toEqual({
+      difficulty: 'Easy',
+      stars: 7,
+      mastery: { Colors: { topic: 'Colors', attempts: 1, correct: 1, score: 0.3, lastPracticed: 0 } },
+    });
+    expect(saved.has('mimi_user_progress_v1')).toBe(false);
+    expect(readJson(STORE_KEY).version).toBe(SCHEMA_VERSION);
+  });
+
+  it('moves history saved at v2 into the record store and builds mastery from it', async () => {
+    save('mimi_profiles_v1', {
+      activeProfileId: 'a',
+      profiles: [{
+        id: 'a',
+        name: 'Ana',
+        avatar: 'dog',
+        progress: { stars: 2, completedTopics: ['Shapes'] },
+        evaluations: [evaluation('e1'), evaluation('e2', { isCorrect: false }), { topic: 'no id' }],
+        sessions: [session('s1')],
+        transcripts: [turn('t1', { text: 'hello' })],
+        safetyAlerts: [alert('x1')],
+      }],
+    });
+
+    const { store } = await loadProfileStore();
+    const [ana] = store.profiles;
+    expect(ana.evaluations).toEqual([evaluation('e1'), evaluation('e2', { isCorrect: false })]);
+    expect(ana.sessions).toEqual([session('s1')]);
+    expect(ana.transcripts).toEqual([turn('t1', { text: 'hello' })]);
+    expect(ana.safetyAlerts).toEqual([alert('x1')]);
+    expect(Object.keys(ana.progress.mastery ?? {})).toEqual(['Counting', 'Shapes']);
+    expect(ana.progress.mastery?.Counting).toMatchObject({ attempts: 2, correct: 1 });
+
+    // The profile in localStorage no longer carries its history
+    const stored = readJson(STORE_KEY);
+    expect(stored.version).toBe(SCHEMA_VERSION);
+    expect(Object.keys(stored.profiles[0])).toEqual(['id', 'name', 'avatar', 'progress']);
+    expect(saved.has('mimi_profiles_v1')).toBe(false);
+    const records = await getRecordStore();
+    expect(await records.getAll('transcripts')).toEqual([{ ...turn('t1', { text: 'hello' }), profileId: 'a' }]);
+  });
+
+  it('moves transcripts and safety alerts saved at v3', async () => {
+    save(STORE_KEY, {
+      version: 3,
+      activeProfileId: 'a',
+      profiles: [{ id: 'a', name: 'Ana', avatar: 'dog', progress: { mastery: {} }, transcripts: [turn('t1', { text: 'hi' })], safetyAlerts: [alert('x1')] }],
+    });
+
+    const { store } = await loadProfileStore();
+    expect(store.profiles[0].transcripts).toEqual([turn('t1', { text: 'hi' })]);
+    expect(store.profiles[0].safetyAlerts).toEqual([alert('x1')]);
+    expect(readJson(STORE_KEY).profiles[0].transcripts).toBeUndefined();
+  });
+
+  it('drops profiles that are missing their id, name or progress', async () => {
+    save(STORE_KEY, {
+      version: SCHEMA_VERSION,
+      activeProfileId: 'a',
+      profiles: [{ id: 'a', name: 'Ana', avatar: 'dog', progress: {} }, { id: 'b', progress: {} }, 'nobody', { id: 'c', name: 'Cy' }],
+    });
+
+    const { store, error } = await loadProfileStore();
+    expect(error).toBeUndefined();
+    expect(store.profiles.map(p => p.id)).toEqual(['a']);
+  });
+
+  it.each([
+    ['data from a newer version', JSON.stringify({ version: SCHEMA_VERSION + 1, profiles: [] }), /newer version/],
+    ['data without a version', JSON.stringify({ profiles: [] }), /no schema version/],
+    ['data that is not JSON', '{"profiles": [', /damaged/],
+  ])('keeps %s under the backup key', async (_, raw, message) => {
+    saved.set(STORE_KEY, raw);
+
+    const { store, error } = await loadProfileStore();
+    expect(store).toEqual({ activeProfileId: null, profiles: [] });
+    expect(error).toMatch(message);
+    expect(saved.get(BACKUP_KEY)).toBe(raw);
+    expect(saved.has(STORE_KEY)).toBe(false);
+  });
+
+  it('backs up v2 data whose profiles are not a list', async () => {
+    save('mimi_profiles_v1', { activeProfileId: null, profiles: 'none' });
+
+    const { error } = await loadProfileStore();
+    expect(error).toMatch(/"profiles" array/);
+    expect(saved.has(BACKUP_KEY)).toBe(true);
+  });
+});
+
+describe('saveProfileStore', () => {
+  it('saves history to the record store and the rest to localStorage', async () => {
+    const empty: ProfileStore = { activeProfileId: null, profiles: [] };
+    const store = { activeProfileId: 'a', profiles: [profile({ id: 'a', evaluations: [evaluation('e1', { topic: 'Colors' })], transcripts: [turn('t1', { text: 'hi' })] })] };
+
+    await saveProfileStore(store, empty);
+    expect(readJson(STORE_KEY).profiles[0].evaluations).toBeUndefined();
+    expect(readJson(RECORDS_KEY).evaluations).toEqual([{ ...evaluation('e1', { topic: 'Colors' }), profileId: 'a' }]);
+
+    const { store: loaded } = await loadProfileStore();
+    expect(loaded.profiles[0]).toEqual(store.profiles[0]);
+  });
+
+  it('only writes records that changed', async () => {
+    const first = profile({ id: 'a', evaluations: [evaluation('e1', { topic: 'Colors' })] });
+    const before = { activeProfileId: 'a', profiles: [first] };
+    await saveProfileStore(before, { activeProfileId: null, profiles: [] });
+
+    const records = await getRecordStore();
+    const put = vi.spyOn(records, 'put');
+    const added = evaluation('e2', { topic: 'Colors' });
+    await saveProfileStore({ activeProfileId: 'a', profiles: [{ ...first, evaluations: [...first.evaluations, added] }] }, before);
+    expect(put).toHaveBeenCalledTimes(1);
+    expect(put).toHaveBeenCalledWith('evaluations', [{ ...added, profileId: 'a' }]);
+    put.mockRestore();
+  });
+
+  it('deletes records that were replaced and the history of removed profiles', async () => {
+    const before = {
+      activeProfileId: 'a',
+      profiles: [
+        profile({ id: 'a', sessions: [session('s1'), session('s2')] }),
+        profile({ id: 'b', safetyAlerts: [alert('x1')] }),
+      ],
+    };
+    await saveProfileStore(before, { activeProfileId: null, profiles: [] });
+
+    await saveProfileStore({ activeProfileId: 'a', profiles: [{ ...before.profiles[0], sessions: [session('s2')] }] }, before);
+    const records = readJson(RECORDS_KEY);
+    expect(records.sessions.map((r: SessionRecord) => r.id)).toEqual(['s2']);
+    expect(records.safetyAlerts).toEqual([]);
+  });
+
+  it('saves history before a full localStorage can stop it', async () => {
+    const setItem = localStorage.setItem;
+    vi.stubGlobal('localStorage', {
+      ...localStorage,
+      setItem: (key: string, value: string) => {
+        if (key === STORE_KEY) throw new Error('QuotaExceededError');
+        setItem(key, value);
+      },
+    });
+
+    const store = { activeProfileId: 'a', profiles: [profile({ id: 'a', evaluations: [evaluation('e1', { topic: 'Colors' })] })] };
+    await expect(saveProfileStore(store, { activeProfileId: null, profiles: [] })).rejects.toThrow('QuotaExceededError');
+    expect(readJson(RECORDS_KEY).evaluations).toHaveLength(1);
+  });
+});
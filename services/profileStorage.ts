@@ -0,0 +1,313 @@
+import { AvatarId, ChildProfile, EvaluationRecord, UserProgress } from '../types';
+import { computeMastery } from '../utils/mastery';
+import { createId } from '../utils/ids';
+import { getRecordStore, RECORD_KINDS, RecordKind, RecordStore, RecordTypes, StoredRecord } from './recordStore';
+
+/**
+ * Version of the saved profile data. Bump it and add a migration below
+ * whenever the saved shape changes.
+ */
+export const SCHEMA_VERSION = 4;
+
+const STORE_KEY = 'mimi_profile_store';
+// Data that couldn't be read is moved here rather than being overwritten
+const BACKUP_KEY = 'mimi_profile_store_backup';
+// Saved before the schema was versioned
+const PROFILES_V2_KEY = 'mimi_profiles_v1';
+const PROGRESS_V1_KEY = 'mimi_user_progress_v1';
+
+export interface ProfileStore {
+  activeProfileId: string | null;
+  profiles: ChildProfile[];
+}
+
+/**
+ * A profile as it was saved. Fields added since then are filled in by
+ * `useProfiles`, which knows their defaults.
+ */
+export type SavedProfile = Partial<Omit<ChildProfile, 'progress'>> & {
+  id: string;
+  name: string;
+  avatar: AvatarId;
+  progress: Partial<UserProgress>;
+};
+
+export interface SavedProfileStore {
+  activeProfileId: string | null;
+  profiles: SavedProfile[];
+}
+
+// Profile fields kept in localStorage; the history that grows with every class is in the record store
+type StoredProfile = Omit<SavedProfile, RecordKind>;
+
+// v4: evaluations, sessions, transcripts and safety alerts live in the record store
+interface StoreV4 {
+  version: number;
+  activeProfileId: string | null;
+  profiles: StoredProfile[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Builds per-topic mastery for progress saved before it existed, keeping the
+ * stars. Topics from the old "completed" list count as one right answer each.
+ */
+const withMastery = (progress: Record<string, unknown>, evaluations: EvaluationRecord[]): Record<string, unknown> => {
+  const { completedTopics, ...rest } = progress;
+  if (isObject(rest.mastery)) return rest;
+  const mastery = computeMastery(evaluations);
+  for (const topic of Array.isArray(completedTopics) ? completedTopics : []) {
+    if (typeof topic === 'string' && !mastery[topic]) {
+      mastery[topic] = { topic, attempts: 1, correct: 1, score: 0.3, lastPracticed: 0 };
+    }
+  }
+  return { ...rest, mastery };
+};
+
+// A saved profile that migrations can work on
+type ReadableProfile = Record<string, unknown> & { id: string; progress: Record<string, unknown> };
+
+const isReadable = (profile: unknown): profile is ReadableProfile =>
+  isObject(profile) && typeof profile.id === 'string' && !!profile.id && isObject(profile.progress);
+
+/**
+ * Records of one kind from a saved profile, tagged with the child. Entries
+ * without an id can't be stored and are dropped.
+ */
+const takeRecords = <K extends RecordKind>(profile: ReadableProfile, kind: K): StoredRecord<K>[] => {
+  const records = profile[kind];
+  if (!Array.isArray(records)) return [];
+  return records
+    .filter((record: unknown): record is Record<string, unknown> => isObject(record) && typeof record.id === 'string')
+    .map(record => ({ ...record, profileId: profile.id }) as unknown as StoredRecord<K>);
+};
+
+/**
+ * Moves the given kinds of history out of every readable profile and into the
+ * record store. Broken profiles are passed on as they are, for validateStore to report.
+ */
+const moveHistory = async (
+  data: unknown,
+  kinds: RecordKind[],
+  records: RecordStore,
+  version: number,
+  update: (profile: ReadableProfile, original: ReadableProfile) => ReadableProfile = profile => profile
+) => {
+  if (!isObject(data) || !Array.isArray(data.profiles)) {
+    throw new Error('Saved data must be an object with a "profiles" array.');
+  }
+  const profiles: unknown[] = data.profiles;
+  const readable = profiles.filter(isReadable);
+  for (const kind of kinds) {
+    await records.put(kind, readable.flatMap(p => takeRecords(p, kind)));
+  }
+  return {
+    version,
+    activeProfileId: data.activeProfileId,
+    profiles: profiles.map(p => {
+      if (!isReadable(p)) return p;
+      const profile = { ...p };
+      for (const kind of kinds) delete profile[kind];
+      return update(profile, p);
+    }),
+  };
+};
+
+type Migration = (data: unknown, records: RecordStore) => Promise<unknown>;
+
+// Each migration turns data saved at its version into the next version
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 → v2: the single child's progress becomes their profile
+  1: async (progress) => {
+    if (!isObject(progress)) throw new Error('The saved progress is not an object.');
+    const id = createId();
+    return {
+      activeProfileId: id,
+      profiles: [{ id, name: 'Little Learner', avatar: 'cat', progress: withMastery(progress, []) }],
+    };
+  },
+  // v2 → v3: evaluations and sessions move out of localStorage
+  2: (store, records) => moveHistory(store, ['evaluations', 'sessions'], records, 3, (profile, original) => ({
+    ...profile,
+    progress: withMastery(profile.progress, takeRecords(original, 'evaluations')),
+  })),
+  // v3 → v4: transcripts and safety alerts follow them
+  3: (store, records) => moveHistory(store, ['transcripts', 'safetyAlerts'], records, 4),
+};
+
+interface StoreValidation {
+  store?: StoreV4;
+  errors: string[];
+}
+
+/**
+ * Checks migrated data before it is used. Profiles that are missing their
+ * id, name or progress are dropped and reported.
+ */
+const validateStore = (data: unknown): StoreValidation => {
+  if (!isObject(data) || !Array.isArray(data.profiles)) {
+    return { errors: ['Saved data must be an object with a "profiles" array.'] };
+  }
+  const errors: string[] = [];
+  const saved: unknown[] = data.profiles;
+  const profiles = saved.filter((profile, i): profile is StoredProfile => {
+    const problem = !isObject(profile) ? 'must be an object'
+      : typeof profile.id !== 'string' || !profile.id ? 'has no id'
+      : typeof profile.name !== 'string' ? 'has no name'
+      : !isObject(profile.progress) ? 'has no progress'
+      : null;
+    if (problem) errors.push(`profiles[${i}] ${problem}.`);
+    return !problem;
+  });
+  const activeProfileId = typeof data.activeProfileId === 'string' ? data.activeProfileId : null;
+  return { store: { version: SCHEMA_VERSION, activeProfileId, profiles }, errors };
+};
+
+interface SavedData {
+  key: string;
+  raw: string;
+  data: unknown;
+  version: number;
+}
+
+// The newest saved data, with the schema version it was saved at
+const readSavedData = (): SavedData | null => {
+  const sources: [string, (data: unknown) => number][] = [
+    [STORE_KEY, data => isObject(data) && typeof data.version === 'number' ? data.version : NaN],
+    [PROFILES_V2_KEY, () => 2],
+    [PROGRESS_V1_KEY, () => 1],
+  ];
+  for (const [key, getVersion] of sources) {
+    const raw = localStorage.getItem(key);
+    if (raw === null) continue;
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return { key, raw, data: null, version: NaN };
+    }
+    return { key, raw, data, version: getVersion(data) };
+  }
+  return null;
+};
+
+// Puts each record back on its child's profile, without the profile id
+const recordsFor = <T extends { profileId: string }>(records: T[], profileId: string): Omit<T, 'profileId'>[] =>
+  records.filter(r => r.profileId === profileId).map(({ profileId: _, ...record }) => record);
+
+/**
+ * Reads saved profiles and their history, migrating data saved by older
+ * versions of the app. Data that can't be read is kept under a backup key
+ * and an empty store is returned with the error.
+ */
+export async function loadProfileStore(): Promise<{ store: SavedProfileStore; error?: string }> {
+  const saved = readSavedData();
+  if (!saved) return { store: { activeProfileId: null, profiles: [] } };
+
+  try {
+    if (!Number.isInteger(saved.version) || saved.version < 1) {
+      throw new Error('The saved data is damaged or has no schema version.');
+    }
+    if (saved.version > SCHEMA_VERSION) {
+      throw new Error(`The saved data is from a newer version of the app (schema ${saved.version}).`);
+    }
+
+    const records = await getRecordStore();
+    let data = saved.data;
+    for (let version = saved.version; version < SCHEMA_VERSION; version++) {
+      data = await MIGRATIONS[version](data, records);
+    }
+    const { store, errors } = validateStore(data);
+    if (!store) throw new Error(errors.join(' '));
+    if (errors.length > 0) console.warn('Dropped unreadable profiles', errors);
+
+    if (saved.version < SCHEMA_VERSION) {
+      console.log(`Migrated saved profiles from schema ${saved.version} to ${SCHEMA_VERSION}`);
+      localStorage.setItem(STORE_KEY, JSON.stringify(store));
+      localStorage.removeItem(PROFILES_V2_KEY);
+      localStorage.removeItem(PROGRESS_V1_KEY);
+    }
+
+    const [evaluations, sessions, transcripts, safetyAlerts] = await Promise.all([
+      records.getAll('evaluations'),
+      records.getAll('sessions'),
+      records.getAll('transcripts'),
+      records.getAll('safetyAlerts'),
+    ]);
+    return {
+      store: {
+        activeProfileId: store.activeProfileId,
+        profiles: store.profiles.map(profile => ({
+          ...profile,
+          evaluations: recordsFor(evaluations, profile.id),
+          sessions: recordsFor(sessions, profile.id),
+          transcripts: recordsFor(transcripts, profile.id),
+          safetyAlerts: recordsFor(safetyAlerts, profile.id),
+        })),
+      },
+    };
+  } catch (e) {
+    localStorage.setItem(BACKUP_KEY, saved.raw);
+    localStorage.removeItem(saved.key);
+    return { store: { activeProfileId: null, profiles: [] }, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+// Records that are new or were replaced since the last save
+const changedRecords = <T>(records: T[], previous: T[] = []): T[] => {
+  const saved = new Set(previous);
+  return records.filter(r => !saved.has(r));
+};
+
+// Ids of saved records that are gone, such as after a profile was replaced from a backup
+const removedIds = <T extends { id: string }>(records: T[], previous: T[] = []): string[] => {
+  const ids = new Set(records.map(r => r.id));
+  return previous.filter(r => !ids.has(r.id)).map(r => r.id);
+};
+
+type History = { [K in RecordKind]: RecordTypes[K][] };
+
+const historyOf = <K extends RecordKind>(profile: History, kind: K): RecordTypes[K][] => profile[kind];
+
+// History of one kind that changed since the last save, and the ids of records that are gone
+const getHistoryChanges = <K extends RecordKind>(kind: K, store: ProfileStore, previous: ProfileStore) => {
+  const before = new Map(previous.profiles.map(p => [p.id, p]));
+  const changed: StoredRecord<K>[] = [];
+  const removed: string[] = [];
+  for (const profile of store.profiles) {
+    const old = before.get(profile.id);
+    const history = historyOf(profile, kind);
+    const oldHistory = old && historyOf(old, kind);
+    if (history === oldHistory) continue;
+    changed.push(...changedRecords(history, oldHistory).map(r => ({ ...r, profileId: profile.id })));
+    if (oldHistory) removed.push(...removedIds(history, oldHistory));
+  }
+  return { kind, changed, removed };
+};
+
+/**
+ * Saves any history that changed since `previous` to the record store, then
+ * the profiles to localStorage. History goes first so a full localStorage
+ * can't keep it from being saved.
+ */
+export async function saveProfileStore(store: ProfileStore, previous: ProfileStore): Promise<void> {
+  const changes = RECORD_KINDS.map(kind => getHistoryChanges(kind, store, previous));
+  const removedProfiles = previous.profiles.map(p => p.id).filter(id => !store.profiles.some(p => p.id === id));
+  if (removedProfiles.length > 0 || changes.some(c => c.changed.length > 0 || c.removed.length > 0)) {
+    const records = await getRecordStore();
+    for (const { kind, changed, removed } of changes) {
+      if (removed.length > 0) await records.delete(kind, removed);
+      if (changed.length > 0) await records.put(kind, changed);
+    }
+    for (const id of removedProfiles) await records.deleteProfile(id);
+  }
+
+  const saved: StoreV4 = {
+    version: SCHEMA_VERSION,
+    activeProfileId: store.activeProfileId,
+    profiles: store.profiles.map(({ evaluations, sessions, transcripts, safetyAlerts, ...profile }) => profile),
+  };
+  localStorage.setItem(STORE_KEY, JSON.stringify(saved));
+}
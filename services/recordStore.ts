@@ -0,0 +1,95 @@
+import { EvaluationRecord, SafetyAlert, SessionRecord, TranscriptTurn } from '../types';
+import { deleteProfileData, getDatabase, requestResult, write } from './database';
+
+/**
+ * History that grows with every class. It is kept out of localStorage, which
+ * browsers cap at a few megabytes.
+ */
+export interface RecordTypes {
+  evaluations: EvaluationRecord;
+  sessions: SessionRecord;
+  transcripts: TranscriptTurn;
+  safetyAlerts: SafetyAlert;
+}
+
+export type RecordKind = keyof RecordTypes;
+
+export const RECORD_KINDS: RecordKind[] = ['evaluations', 'sessions', 'transcripts', 'safetyAlerts'];
+
+// A record tagged with the child it belongs to
+export type StoredRecord<K extends RecordKind> = RecordTypes[K] & { profileId: string };
+
+export interface RecordStore {
+  getAll<K extends RecordKind>(kind: K): Promise<StoredRecord<K>[]>;
+  // Adds records, replacing any with the same id
+  put<K extends RecordKind>(kind: K, records: StoredRecord<K>[]): Promise<void>;
+  delete(kind: RecordKind, ids: string[]): Promise<void>;
+  deleteProfile(profileId: string): Promise<void>; // Also deletes the child's recordings
+}
+
+const FALLBACK_KEY = 'mimi_records_v1';
+
+const createIndexedDbStore = (db: IDBDatabase): RecordStore => ({
+  getAll: kind => requestResult(db.transaction(kind).objectStore(kind).getAll()),
+  put: (kind, records) => write(db, [kind], tx => {
+    const store = tx.objectStore(kind);
+    records.forEach(record => store.put(record));
+  }),
+  delete: (kind, ids) => write(db, [kind], tx => {
+    const store = tx.objectStore(kind);
+    ids.forEach(id => store.delete(id));
+  }),
+  deleteProfile: profileId => deleteProfileData(db, profileId),
+});
+
+type FallbackRecords = { [K in RecordKind]: StoredRecord<K>[] };
+
+/**
+ * Keeps records in localStorage for browsers without IndexedDB, such as some private windows.
+ */
+const createLocalStorageStore = (): RecordStore => {
+  const read = (): FallbackRecords => {
+    const saved = localStorage.getItem(FALLBACK_KEY);
+    return { evaluations: [], sessions: [], transcripts: [], safetyAlerts: [], ...(saved ? JSON.parse(saved) : {}) };
+  };
+  const save = (records: FallbackRecords) => localStorage.setItem(FALLBACK_KEY, JSON.stringify(records));
+
+  return {
+    getAll: async kind => read()[kind],
+    put: async (kind, records) => {
+      const all = read();
+      const ids = new Set(records.map(r => r.id));
+      save({ ...all, [kind]: [...all[kind].filter(r => !ids.has(r.id)), ...records] });
+    },
+    delete: async (kind, ids) => {
+      const all = read();
+      const removed = new Set(ids);
+      save({ ...all, [kind]: all[kind].filter(r => !removed.has(r.id)) });
+    },
+    deleteProfile: async profileId => {
+      const { evaluations, sessions, transcripts, safetyAlerts } = read();
+      save({
+        evaluations: evaluations.filter(r => r.profileId !== profileId),
+        sessions: sessions.filter(r => r.profileId !== profileId),
+        transcripts: transcripts.filter(r => r.profileId !== profileId),
+        safetyAlerts: safetyAlerts.filter(r => r.profileId !== profileId),
+      });
+    },
+  };
+};
+
+let openStore: Promise<RecordStore> | null = null;
+
+/**
+ * Opens the IndexedDB record store, falling back to localStorage when
+ * IndexedDB is missing or refuses to open. The store is shared by all callers.
+ */
+export function getRecordStore(): Promise<RecordStore> {
+  if (!openStore) {
+    openStore = getDatabase().then(createIndexedDbStore).catch(e => {
+      console.warn('Saving history in localStorage instead of IndexedDB', e);
+      return createLocalStorageStore();
+    });
+  }
+  return openStore;
+}
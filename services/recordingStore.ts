@@ -0,0 +1,51 @@
+import { RecordingInfo, SessionRecording } from '../types';
+import { getRecordingBytes } from '../utils/recording';
+import { getDatabase, requestResult, write } from './database';
+
+/**
+ * Session recordings in IndexedDB. The list shown to parents and the audio
+ * are kept in separate object stores, so listing doesn't load any audio.
+ * There is no localStorage fallback: recordings are far too big for it.
+ */
+const INFO_STORE = 'recordings';
+const AUDIO_STORE = 'recordingAudio';
+
+interface StoredAudio extends Pick<SessionRecording, 'id' | 'child' | 'mimi'> {
+  profileId: string;
+}
+
+export const isRecordingAvailable = (): Promise<boolean> =>
+  getDatabase().then(() => true, () => false);
+
+export async function listRecordings(): Promise<RecordingInfo[]> {
+  const db = await getDatabase();
+  return requestResult<RecordingInfo[]>(db.transaction(INFO_STORE).objectStore(INFO_STORE).getAll());
+}
+
+export async function saveRecording(profileId: string, recording: SessionRecording): Promise<RecordingInfo> {
+  const { id, startedAt, durationMs, child, mimi } = recording;
+  const info: RecordingInfo = { id, profileId, startedAt, durationMs, bytes: getRecordingBytes(recording) };
+  const audio: StoredAudio = { id, profileId, child, mimi };
+  const db = await getDatabase();
+  await write(db, [INFO_STORE, AUDIO_STORE], tx => {
+    tx.objectStore(INFO_STORE).put(info);
+    tx.objectStore(AUDIO_STORE).put(audio);
+  });
+  return info;
+}
+
+export async function loadRecording(info: RecordingInfo): Promise<SessionRecording | undefined> {
+  const db = await getDatabase();
+  const audio = await requestResult<StoredAudio | undefined>(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).get(info.id));
+  return audio && { id: info.id, startedAt: info.startedAt, durationMs: info.durationMs, child: audio.child, mimi: audio.mimi };
+}
+
+export async function deleteRecordings(ids: string[]): Promise<void> {
+  const db = await getDatabase();
+  await write(db, [INFO_STORE, AUDIO_STORE], tx => {
+    ids.forEach(id => {
+      tx.objectStore(INFO_STORE).delete(id);
+      tx.objectStore(AUDIO_STORE).delete(id);
+    });
+  });
+}
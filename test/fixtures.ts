@@ -0,0 +1,53 @@
+import { ChildProfile, EvaluationRecord, SafetyAlert, SessionRecord, TranscriptTurn } from '../types';
+import { NO_LIMITS } from '../utils/screenTime';
+import { DEFAULT_SAFETY } from '../utils/safety';
+import { DEFAULT_RECORDING } from '../utils/recording';
+import { DEFAULT_SOUNDS } from '../utils/soundEffects';
+
+/**
+ * Profiles and history records for tests, with every field filled in so a
+ * test only has to give what it is about.
+ */
+
+export const evaluation = (id: string, overrides: Partial<EvaluationRecord> = {}): EvaluationRecord =>
+  ({ id, sessionId: 's1', timestamp: 1000, isCorrect: true, topic: 'Counting', difficulty: 'Easy', ...overrides });
+
+export const session = (id: string, overrides: Partial<SessionRecord> = {}): SessionRecord =>
+  ({ id, startedAt: 1000, endedAt: 61000, difficulty: 'Easy', ...overrides });
+
+export const turn = (id: string, overrides: Partial<TranscriptTurn> = {}): TranscriptTurn =>
+  ({ id, sessionId: 's1', speaker: 'child', text: 'five', startedAt: 1000, ...overrides });
+
+export const alert = (id: string, overrides: Partial<SafetyAlert> = {}): SafetyAlert => ({
+  id,
+  sessionId: 's1',
+  timestamp: 1000,
+  category: 'blockedContent',
+  rule: 'scary',
+  speaker: 'child',
+  excerpt: 'a ghost',
+  action: 'redirect',
+  ...overrides,
+});
+
+export const profile = (overrides: Partial<ChildProfile> = {}): ChildProfile => ({
+  id: 'ana',
+  name: 'Ana',
+  avatar: 'cat',
+  language: 'en',
+  personaId: 'mimi',
+  limits: NO_LIMITS,
+  safety: DEFAULT_SAFETY,
+  recording: DEFAULT_RECORDING,
+  sounds: DEFAULT_SOUNDS,
+  listeningMode: 'alwaysOn',
+  tapToAnswer: false,
+  progress: { difficulty: 'Easy', curriculumId: 'mimi-starter', adaptiveDifficulty: false, stars: 0, mastery: {} },
+  evaluations: [],
+  levelChanges: [],
+  sessions: [],
+  transcripts: [],
+  safetyAlerts: [],
+  badges: [],
+  ...overrides,
+});
@@ -8,6 +8,7 @@ export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR',
 }
 
@@ -17,8 +18,292 @@ export interface PcmBlob {
   mimeType: string;
 }
 
+// One answer judged by Mimi through the reportEvaluation tool
+export interface EvaluationRecord {
+  id: string;
+  sessionId: string;
+  timestamp: number;
+  isCorrect: boolean;
+  topic?: string;
+  difficulty: string;
+}
+
+// One connect/disconnect cycle of the live session
+export interface SessionRecord {
+  id: string;
+  startedAt: number;
+  endedAt?: number; // Missing if the app was closed mid-session
+  lastActiveAt?: number; // Last time the class was seen running; counts a class that was never closed off
+  difficulty: string;
+  focusTopic?: string;
+  lessonLength?: number; // Set for lessons with a fixed number of questions
+  personaId?: string; // Teacher of the class; missing from sessions saved before it was recorded
+}
+
+// One uninterrupted stretch of speech from the child or Mimi
+export interface TranscriptTurn {
+  id: string;
+  sessionId: string;
+  speaker: 'child' | 'mimi';
+  text: string;
+  startedAt: number;
+  evaluationId?: string; // Set on the child's answer that Mimi evaluated
+}
+
+// Picture shown on screen while Mimi asks a question, set by the show* tools
+export type VisualAid =
+  | { kind: 'shape'; shape: string; color?: string }
+  | { kind: 'count'; count: number; item: string }
+  | { kind: 'color'; color: string }
+  | { kind: 'clock'; hour: number; minute: number };
+
+// Answer the child can tap instead of saying it, offered by the offerChoices tool
+export interface AnswerChoice {
+  text: string;
+  emoji?: string; // Picture shown on the button
+  color?: string; // Named color shown as a swatch, for color questions
+}
+
+// Rolling knowledge estimate for a single topic
+export interface TopicMastery {
+  topic: string;
+  attempts: number;
+  correct: number;
+  score: number; // Exponentially weighted accuracy (0-1)
+  lastPracticed: number;
+}
+
+// Logged whenever adaptive difficulty moves a child between levels
+export interface LevelChange {
+  id: string;
+  sessionId: string;
+  timestamp: number;
+  from: string;
+  to: string;
+  accuracy: number; // Rolling accuracy that triggered the change
+}
+
+export type LanguageCode = 'en' | 'es' | 'hi';
+
+// Translations of a curriculum name, keyed by language
+export type LocalizedNames = Partial<Record<LanguageCode, string>>;
+
+export interface CurriculumTopic {
+  id: string;
+  name: string; // Reported back by Mimi as the evaluation topic
+  localizedNames?: LocalizedNames;
+  description: string;
+  exampleQuestions: string[];
+}
+
+export interface CurriculumLevel {
+  id: string; // Stored as the child's difficulty
+  name: string;
+  localizedNames?: LocalizedNames;
+  ages: { min: number; max: number };
+  style: string;
+  hintStrategy: string;
+  vocabulary: {
+    minSentenceWords?: number;
+    maxSentenceWords: number;
+    notes?: string;
+    avoidWords?: string[];
+  };
+  topics: CurriculumTopic[];
+}
+
+// Versioned JSON format teachers can publish for their own syllabus
+export interface CurriculumPack {
+  format: 'mimi-curriculum';
+  version: 1;
+  id: string;
+  name: string;
+  description?: string;
+  author?: string;
+  levels: CurriculumLevel[]; // Easiest first
+}
+
 export interface UserProgress {
   difficulty: string;
+  curriculumId: string;
+  adaptiveDifficulty: boolean;
   stars: number;
-  completedTopics: string[];
-}
\ No newline at end of file
+  mastery: Record<string, TopicMastery>;
+}
+
+export type PersonaFaceId = 'classic' | 'cat' | 'robot' | 'owl';
+
+// Tailwind classes used to colour a persona's face in the Visualizer
+export interface PersonaTheme {
+  face: PersonaFaceId;
+  ripple: string;    // Outer ripple, e.g. 'bg-sky-200'
+  halo: string;      // Inner ripple, e.g. 'bg-sky-300'
+  border: string;    // Face outline, e.g. 'border-sky-400'
+  accent: string;    // Ears, antenna and beak, e.g. 'bg-sky-400'
+}
+
+// How the teacher's face looks between words: set by the connection and the last answer
+export type FaceExpression = 'idle' | 'thinking' | 'celebrating' | 'encouraging';
+
+// A teacher character kids can choose: voice, personality and look
+export interface Persona {
+  id: string;
+  name: string;
+  voiceName: string; // Prebuilt Gemini Live voice
+  tagline: Record<LanguageCode, string>;       // Shown in the teacher picker
+  personality: Record<LanguageCode, string>;   // Added to the system instruction
+  greetingStyle: Record<LanguageCode, string>; // How the teacher opens a lesson
+  theme: PersonaTheme;
+}
+
+export type SafetyCategory = 'blockedContent' | 'personalInfo' | 'offTopic';
+
+// Redirect asks Mimi to change the subject; pause ends the class
+export type SafetyAction = 'redirect' | 'pause';
+
+// What the safety checks look for in one child's classes
+export interface SafetySettings {
+  blockedTopics: string[]; // Ids from SAFETY_TOPICS in utils/safety.ts
+  blockedWords: string[];  // Extra words or phrases chosen by the parent
+  detectPersonalInfo: boolean;
+  keepOnTopic: boolean;
+}
+
+// Logged for the parent whenever a safety rule fires during a class
+export interface SafetyAlert {
+  id: string;
+  sessionId: string;
+  timestamp: number;
+  category: SafetyCategory;
+  rule: string; // Topic id, blocked word, kind of personal detail or reported topic
+  speaker: TranscriptTurn['speaker'];
+  excerpt: string; // What was said, with personal details hidden
+  action: SafetyAction;
+}
+
+// Part of the day when a child may start a class, as local "HH:MM" times
+export interface TimeWindow {
+  start: string;
+  end: string; // Earlier than start for windows that run past midnight
+}
+
+// Screen-time rules a parent sets for one child; missing values mean no limit
+export interface ScreenTimeLimits {
+  maxSessionMinutes?: number;
+  dailyMinutes?: number;
+  allowedWindows: TimeWindow[]; // Empty allows any time of day
+}
+
+// How the microphone is used in class: always listening, or only while a button is held
+export type ListeningMode = 'alwaysOn' | 'pushToTalk';
+
+// Opt-in audio recording of a child's classes
+export interface RecordingSettings {
+  enabled: boolean;
+  retentionDays: number; // Recordings older than this are deleted
+}
+
+export type SoundThemeId = 'chimes' | 'arcade' | 'marimba';
+
+// Sound effects in a child's classes, set by a parent
+export interface SoundSettings {
+  theme: SoundThemeId;
+  volume: number; // 0-1; Mimi's voice isn't affected
+  muted: boolean;
+}
+
+// Stretch of audio that starts this long after the recording began
+export interface AudioSegment {
+  offsetMs: number;
+  pcm: Int16Array;
+}
+
+export interface AudioTrack {
+  sampleRate: number;
+  segments: AudioSegment[];
+}
+
+// Audio of one class, with the child's microphone and Mimi's voice as separate tracks
+export interface SessionRecording {
+  id: string; // Same as the session id
+  startedAt: number;
+  durationMs: number;
+  child: AudioTrack;
+  mimi: AudioTrack;
+}
+
+// A saved recording as listed for the parent, without its audio
+export interface RecordingInfo {
+  id: string;
+  profileId: string;
+  startedAt: number;
+  durationMs: number;
+  bytes: number;
+}
+
+// What a child has to do to earn a badge
+export type BadgeRule =
+  | { kind: 'correctTotal'; count: number }              // Correct answers ever
+  | { kind: 'streak'; count: number }                    // Correct answers in a row
+  | { kind: 'mastered'; topic: string }                  // Reach "mastered" on one topic
+  | { kind: 'masteredCount'; count: number }             // Reach "mastered" on any number of topics
+  | { kind: 'dailyStreak'; days: number }                // Classes on consecutive days
+  | { kind: 'sessions'; count: number };                 // Classes finished
+
+// A reward described entirely by data, so new badges need no code
+export interface Badge {
+  id: string;
+  icon: string; // Emoji
+  name: Record<LanguageCode, string>;
+  description: Record<LanguageCode, string>;
+  rule: BadgeRule;
+}
+
+export interface EarnedBadge {
+  badgeId: string;
+  earnedAt: number;
+}
+
+export type AvatarId = 'cat' | 'dog' | 'rabbit' | 'bird' | 'fish' | 'turtle' | 'panda' | 'squirrel';
+
+// A single child using the app, with their own progress
+export interface ChildProfile {
+  id: string;
+  name: string;
+  age?: number;
+  avatar: AvatarId;
+  language: LanguageCode;
+  secondLanguage?: LanguageCode; // Bilingual mode: vocabulary is also taught in this language
+  personaId: string;
+  limits: ScreenTimeLimits;
+  safety: SafetySettings;
+  recording: RecordingSettings;
+  sounds: SoundSettings;
+  listeningMode: ListeningMode;
+  tapToAnswer: boolean; // Mimi offers answers to tap as well as say
+  lessonLength?: number; // Questions per lesson; free play when missing
+  progress: UserProgress;
+  evaluations: EvaluationRecord[];
+  levelChanges: LevelChange[];
+  sessions: SessionRecord[];
+  transcripts: TranscriptTurn[];
+  safetyAlerts: SafetyAlert[];
+  badges: EarnedBadge[];
+}
+
+// Details about the child that are passed into the live session
+export interface SessionSettings {
+  curriculum: CurriculumPack;
+  persona: Persona;
+  difficulty: string;
+  focusTopic?: string;
+  childName?: string;
+  childAge?: number;
+  language: LanguageCode;
+  secondLanguage?: LanguageCode;
+  safety: SafetySettings;
+  recordAudio: boolean;
+  listeningMode: ListeningMode;
+  tapToAnswer: boolean;
+  lessonLength?: number;
+}
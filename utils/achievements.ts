@@ -0,0 +1,78 @@
+import { Badge, BadgeRule, ChildProfile, EarnedBadge } from '../types';
+import { toDayKey } from './analytics';
+import { getMasteryLevel } from './mastery';
+
+// The parts of a profile that badge rules are measured against
+export type BadgeHistory = Pick<ChildProfile, 'evaluations' | 'sessions' | 'progress'>;
+
+export interface BadgeProgress {
+  current: number;
+  target: number;
+}
+
+const longestCorrectRun = (history: BadgeHistory): number => {
+  let longest = 0;
+  let run = 0;
+  for (const record of [...history.evaluations].sort((a, b) => a.timestamp - b.timestamp)) {
+    run = record.isCorrect ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+};
+
+const nextDayKey = (day: string): string => {
+  const [year, month, date] = day.split('-').map(Number);
+  return toDayKey(new Date(year, month - 1, date + 1).getTime());
+};
+
+const longestDailyStreak = (history: BadgeHistory): number => {
+  const days = [...new Set(history.sessions.map(s => toDayKey(s.startedAt)))].sort();
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && nextDayKey(days[i - 1]) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+};
+
+const countMastered = (history: BadgeHistory): number =>
+  Object.values(history.progress.mastery).filter(m => getMasteryLevel(m) === 'mastered').length;
+
+/**
+ * How far a child is towards a badge. Counts only ever go up, so a badge
+ * stays earned once `current` reaches `target`.
+ */
+export function getBadgeProgress(rule: BadgeRule, history: BadgeHistory): BadgeProgress {
+  switch (rule.kind) {
+    case 'correctTotal':
+      return { current: history.evaluations.filter(e => e.isCorrect).length, target: rule.count };
+    case 'streak':
+      return { current: longestCorrectRun(history), target: rule.count };
+    case 'mastered': {
+      const mastery = history.progress.mastery[rule.topic];
+      return { current: mastery && getMasteryLevel(mastery) === 'mastered' ? 1 : 0, target: 1 };
+    }
+    case 'masteredCount':
+      return { current: countMastered(history), target: rule.count };
+    case 'dailyStreak':
+      return { current: longestDailyStreak(history), target: rule.days };
+    case 'sessions':
+      return { current: history.sessions.filter(s => s.endedAt).length, target: rule.count };
+    default:
+      // A badge from a newer version of the app; it can't be earned yet
+      return { current: 0, target: 1 };
+  }
+}
+
+/**
+ * Badges whose rules are met but that the child hasn't been given yet.
+ */
+export function findNewBadges(badges: Badge[], history: BadgeHistory, earned: EarnedBadge[]): Badge[] {
+  const earnedIds = new Set(earned.map(b => b.badgeId));
+  return badges.filter(badge => {
+    if (earnedIds.has(badge.id)) return false;
+    const { current, target } = getBadgeProgress(badge.rule, history);
+    return current >= target;
+  });
+}
@@ -0,0 +1,34 @@
+// Number of recent answers the rolling accuracy is measured over
+export const ADAPTIVE_WINDOW = 5;
+export const PROMOTE_ACCURACY = 0.8;
+export const DEMOTE_ACCURACY = 0.4;
+
+export interface AdaptiveDecision {
+  level: string;
+  accuracy: number;
+}
+
+/**
+ * Decides whether the child should move to another level, based on their most
+ * recent answers at the current level. `levels` are ordered easiest first.
+ * Returns null to stay at the same level.
+ */
+export function getAdaptiveLevel(levels: string[], difficulty: string, recentAnswers: boolean[]): AdaptiveDecision | null {
+  if (recentAnswers.length < ADAPTIVE_WINDOW) return null;
+
+  const window = recentAnswers.slice(-ADAPTIVE_WINDOW);
+  const accuracy = window.filter(Boolean).length / window.length;
+  const index = levels.indexOf(difficulty);
+
+  if (accuracy >= PROMOTE_ACCURACY && index < levels.length - 1) {
+    return { level: levels[index + 1], accuracy };
+  }
+  if (accuracy <= DEMOTE_ACCURACY && index > 0) {
+    return { level: levels[index - 1], accuracy };
+  }
+  return null;
+}
+
+export function isPromotion(levels: string[], from: string, to: string): boolean {
+  return levels.indexOf(to) > levels.indexOf(from);
+}
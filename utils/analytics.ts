@@ -0,0 +1,82 @@
+import { EvaluationRecord, SessionRecord } from '../types';
+
+export interface DailyUsage {
+  day: string; // YYYY-MM-DD in local time
+  minutes: number;
+}
+
+export interface TopicAccuracyPoint {
+  day: string;
+  correct: number;
+  total: number;
+  accuracy: number;
+}
+
+/**
+ * Formats a timestamp as a local YYYY-MM-DD key.
+ */
+export function toDayKey(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// A class whose end was never recorded, such as when the tab was closed, runs until it was last seen
+export function getSessionMinutes(session: SessionRecord): number {
+  const end = session.endedAt ?? session.lastActiveAt;
+  if (!end) return 0;
+  return Math.max(0, end - session.startedAt) / 60000;
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes < 1) return `${Math.round(minutes * 60)}s`;
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+}
+
+/**
+ * Minutes spent in sessions on each of the last `days` days, oldest first.
+ * Sessions are counted on the day they started.
+ */
+export function getDailyUsage(sessions: SessionRecord[], days = 7, now = Date.now()): DailyUsage[] {
+  const usage: DailyUsage[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    usage.push({ day: toDayKey(now - i * 86400000), minutes: 0 });
+  }
+  for (const session of sessions) {
+    const entry = usage.find(u => u.day === toDayKey(session.startedAt));
+    if (entry) entry.minutes += getSessionMinutes(session);
+  }
+  return usage;
+}
+
+/**
+ * Accuracy per topic for every day the topic was practiced, oldest first.
+ */
+export function getTopicAccuracyByDay(evaluations: EvaluationRecord[]): Record<string, TopicAccuracyPoint[]> {
+  const byTopic: Record<string, TopicAccuracyPoint[]> = {};
+  for (const record of evaluations) {
+    if (!record.topic) continue;
+    const points = byTopic[record.topic] ?? (byTopic[record.topic] = []);
+    const day = toDayKey(record.timestamp);
+    let point = points.find(p => p.day === day);
+    if (!point) {
+      point = { day, correct: 0, total: 0, accuracy: 0 };
+      points.push(point);
+    }
+    point.total += 1;
+    point.correct += record.isCorrect ? 1 : 0;
+    point.accuracy = point.correct / point.total;
+  }
+  for (const points of Object.values(byTopic)) {
+    points.sort((a, b) => a.day.localeCompare(b.day));
+  }
+  return byTopic;
+}
+
+/**
+ * Answers given during a session, as correct/total counts.
+ */
+export function getSessionScore(session: SessionRecord, evaluations: EvaluationRecord[]) {
+  const answers = evaluations.filter(e => e.sessionId === session.id);
+  return { correct: answers.filter(e => e.isCorrect).length, total: answers.length };
+}
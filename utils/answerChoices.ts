@@ -0,0 +1,35 @@
+import { AnswerChoice } from '../types';
+import { COLORS } from './visualAids';
+
+export const MIN_CHOICES = 2;
+export const MAX_CHOICES = 4;
+const MAX_TEXT_LENGTH = 40;
+
+// A single emoji, possibly with modifiers, rather than arbitrary text
+const isEmoji = (value: string) => /^\p{Extended_Pictographic}[\p{Extended_Pictographic}\p{Emoji_Modifier}\u200D\uFE0F]*$/u.test(value);
+
+/**
+ * Turns the arguments of an offerChoices tool call into answer buttons.
+ * Returns an error message for the model if they can't be shown.
+ */
+export function parseAnswerChoices(args: Record<string, unknown> = {}): { choices?: AnswerChoice[]; error?: string } {
+  const { choices } = args;
+  if (!Array.isArray(choices) || choices.length < MIN_CHOICES || choices.length > MAX_CHOICES) {
+    return { error: `"choices" must be a list of ${MIN_CHOICES} to ${MAX_CHOICES} answers.` };
+  }
+
+  const parsed: AnswerChoice[] = [];
+  for (const [i, choice] of choices.entries()) {
+    const text = typeof choice?.text === 'string' ? choice.text.trim() : '';
+    if (!text || text.length > MAX_TEXT_LENGTH) {
+      return { error: `choices[${i}].text must be a short answer of 1 to ${MAX_TEXT_LENGTH} characters.` };
+    }
+    if (parsed.some(c => c.text.toLowerCase() === text.toLowerCase())) {
+      return { error: `choices[${i}] repeats "${text}"; every answer must be different.` };
+    }
+    const emoji = typeof choice.emoji === 'string' && isEmoji(choice.emoji.trim()) ? choice.emoji.trim() : undefined;
+    const color = typeof choice.color === 'string' && choice.color.toLowerCase() in COLORS ? choice.color.toLowerCase() : undefined;
+    parsed.push({ text, emoji, color });
+  }
+  return { choices: parsed };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createWav, WAV_HEADER_BYTES } from './audio';
+
+const text = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+describe('createWav', () => {
+  it('writes a 16-bit PCM header for the channels given', () => {
+    const bytes = createWav(2, 3, 24000);
+    const view = new DataView(bytes.buffer);
+
+    expect(bytes.length).toBe(WAV_HEADER_BYTES + 12);
+    expect(text(bytes, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 12);
+    expect(text(bytes, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(24000 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(text(bytes, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(12);
+  });
+
+  it('starts out silent', () => {
+    expect(Array.from(createWav(1, 4, 8000).subarray(WAV_HEADER_BYTES))).toEqual(new Array(8).fill(0));
+  });
+
+  it('is just the header when there is no audio', () => {
+    const bytes = createWav(1, 0, 24000);
+    expect(bytes.length).toBe(WAV_HEADER_BYTES);
+    expect(new DataView(bytes.buffer).getUint32(40, true)).toBe(0);
+  });
+});
@@ -24,21 +24,14 @@ export function encode(bytes: Uint8Array): string {
   }
   return btoa(binary);
 }
+
 /**
- * Converts raw Float32 audio data (from Web Audio API) into the PCM format
- * expected by the Gemini Live API.
+ * Wraps PCM16 samples that are already at the given rate for the Gemini Live API.
  */
-export function createBlob(data: Float32Array): PcmBlob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Clamp values to [-1, 1] before converting to PCM16
-    const s = Math.max(-1, Math.min(1, data[i]));
-    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
+export function createPcmBlob(pcm: Int16Array, sampleRate: number): PcmBlob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
@@ -63,4 +56,34 @@ export async function decodeAudioData(
     }
   }
   return buffer;
-}
\ No newline at end of file
+}
+export const WAV_HEADER_BYTES = 44;
+
+/**
+ * A silent 16-bit PCM WAV file with room for `frameCount` frames. Samples are
+ * written after the header, interleaved one from each channel per frame, so
+ * long audio can be filled in without building another copy of it.
+ */
+export function createWav(channelCount: number, frameCount: number, sampleRate: number): Uint8Array {
+  const dataSize = frameCount * channelCount * 2;
+  const bytes = new Uint8Array(WAV_HEADER_BYTES + dataSize);
+  const view = new DataView(bytes.buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);                              // Format chunk size
+  view.setUint16(20, 1, true);                               // PCM
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channelCount * 2, true);   // Bytes per second
+  view.setUint16(32, channelCount * 2, true);                // Bytes per frame
+  view.setUint16(34, 16, true);                              // Bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, dataSize, true);
+  return bytes;
+}
@@ -0,0 +1,100 @@
+export const INPUT_SAMPLE_RATE = 16000;
+// 100ms of audio at 16kHz per message sent to the session
+export const CAPTURE_CHUNK_SIZE = 1600;
+
+export const CAPTURE_PROCESSOR_NAME = 'mimi-capture-processor';
+
+// Message posted by the worklet for every finished chunk
+export interface CaptureChunk {
+  pcm: Int16Array; // Mono PCM16 at INPUT_SAMPLE_RATE
+  rms: number;
+}
+
+/**
+ * AudioWorklet processor source. It runs on the audio thread, downsamples the
+ * device's native rate to the target rate, converts to PCM16 and measures RMS.
+ * Kept as a string so it can be loaded from a Blob URL without bundler support.
+ */
+const CAPTURE_WORKLET_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSize } = options.processorOptions;
+    // Input samples per output sample; sampleRate is the context's native rate
+    this.ratio = sampleRate / targetSampleRate;
+    this.phase = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.chunkSize = chunkSize;
+    this.chunk = new Int16Array(chunkSize);
+    this.index = 0;
+    this.sumSquares = 0;
+  }
+
+  emit(value) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.chunk[this.index++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    this.sumSquares += s * s;
+    if (this.index === this.chunkSize) {
+      const rms = Math.sqrt(this.sumSquares / this.chunkSize);
+      this.port.postMessage({ pcm: this.chunk, rms }, [this.chunk.buffer]);
+      this.chunk = new Int16Array(this.chunkSize);
+      this.index = 0;
+      this.sumSquares = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    // Averaging every input sample that falls into an output sample's window
+    // acts as a simple low-pass filter before decimating
+    for (let i = 0; i < input.length; i++) {
+      this.sum += input[i];
+      this.count++;
+      this.phase += 1;
+      let emitted = false;
+      while (this.phase >= this.ratio) {
+        this.emit(this.sum / this.count);
+        this.phase -= this.ratio;
+        emitted = true;
+      }
+      if (emitted) {
+        this.sum = 0;
+        this.count = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', CaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+
+/**
+ * Registers the capture processor on an AudioContext.
+ */
+export async function loadCaptureWorklet(ctx: AudioContext): Promise<void> {
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET_SOURCE], { type: 'application/javascript' }));
+  }
+  await ctx.audioWorklet.addModule(workletUrl);
+}
+
+/**
+ * Creates a capture node on a context that already loaded the worklet.
+ */
+export function createCaptureNode(ctx: AudioContext, onChunk: (chunk: CaptureChunk) => void): AudioWorkletNode {
+  const node = new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetSampleRate: INPUT_SAMPLE_RATE, chunkSize: CAPTURE_CHUNK_SIZE },
+  });
+  node.port.onmessage = (e: MessageEvent<CaptureChunk>) => onChunk(e.data);
+  return node;
+}
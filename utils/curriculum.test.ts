@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { MIMI_STARTER_PACK } from '../curricula/mimiStarter';
+import { localizeTopic, normalizeTopic, validateCurriculumPack } from './curriculum';
+
+// A pack as a teacher's file would be parsed, free to be broken by the test
+const packJson = () => JSON.parse(JSON.stringify(MIMI_STARTER_PACK));
+
+describe('validateCurriculumPack', () => {
+  it('accepts the built-in pack', () => {
+    expect(validateCurriculumPack(packJson())).toEqual({ pack: MIMI_STARTER_PACK, errors: [] });
+  });
+
+  it('rejects levels with the same id and topics repeated within a level', () => {
+    const pack = packJson();
+    pack.levels[1].id = 'Easy';
+    pack.levels[0].topics[1].id = 'colors';
+    expect(validateCurriculumPack(pack)).toEqual({
+      errors: [
+        'levels[0].topics[1].id "colors" is used by another topic in this level.',
+        'levels[1].id "Easy" is used by another level.',
+      ],
+    });
+  });
+
+  it('allows the same topic id in different levels', () => {
+    // The starter pack has Math at both Medium and Hard
+    expect(MIMI_STARTER_PACK.levels.filter(level => level.topics.some(topic => topic.id === 'math'))).toHaveLength(2);
+    expect(validateCurriculumPack(packJson()).errors).toEqual([]);
+  });
+
+  it('rejects ages and vocabulary it cannot use', () => {
+    const pack = packJson();
+    pack.levels[0].ages = { min: 7, max: 5 };
+    pack.levels[1].ages = { min: '6', max: 7 };
+    pack.levels[0].vocabulary = { maxSentenceWords: 0 };
+    pack.levels[1].vocabulary = { minSentenceWords: 13, maxSentenceWords: 12, notes: 3, avoidWords: 'scary' };
+    expect(validateCurriculumPack(pack).errors).toEqual([
+      'levels[0].ages must be { "min": number, "max": number } with min <= max.',
+      'levels[0].vocabulary.maxSentenceWords must be a positive number.',
+      'levels[1].ages must be { "min": number, "max": number } with min <= max.',
+      'levels[1].vocabulary.minSentenceWords must be a number no larger than maxSentenceWords.',
+      'levels[1].vocabulary.notes must be a string.',
+      'levels[1].vocabulary.avoidWords must be an array of strings.',
+    ]);
+  });
+
+  it('reports the pack fields before giving up on missing levels', () => {
+    expect(validateCurriculumPack({ format: 'other', version: 2, id: 'x', name: ' ' }).errors).toEqual([
+      '"format" must be "mimi-curriculum".',
+      '"version" 2 is not supported (supported: 1).',
+      '"name" must be a non-empty string.',
+      '"levels" must be a non-empty array.',
+    ]);
+    expect(validateCurriculumPack([])).toEqual({ errors: ['The file must contain a JSON object.'] });
+  });
+});
+
+describe('normalizeTopic', () => {
+  it('maps translated, differently written and id forms of a topic to its name', () => {
+    expect(normalizeTopic(MIMI_STARTER_PACK, 'Colores')).toBe('Colors');
+    expect(normalizeTopic(MIMI_STARTER_PACK, 'रंग')).toBe('Colors');
+    expect(normalizeTopic(MIMI_STARTER_PACK, ' "matematicas". ')).toBe('Math');
+    expect(normalizeTopic(MIMI_STARTER_PACK, 'el TIEMPO')).toBe('Weather');
+    expect(normalizeTopic(MIMI_STARTER_PACK, 'fruits')).toBe('Fruits');
+  });
+
+  it('keeps topics the pack does not have as reported', () => {
+    expect(normalizeTopic(MIMI_STARTER_PACK, '  Dinosaurs ')).toBe('Dinosaurs');
+  });
+
+  it('gives back the name in the child\'s language', () => {
+    expect(localizeTopic(MIMI_STARTER_PACK, normalizeTopic(MIMI_STARTER_PACK, 'Números'), 'hi')).toBe('संख्याएँ');
+  });
+});
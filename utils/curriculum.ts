@@ -0,0 +1,162 @@
+import { CurriculumLevel, CurriculumPack, LanguageCode, LocalizedNames } from '../types';
+
+export const CURRICULUM_FORMAT = 'mimi-curriculum';
+export const SUPPORTED_CURRICULUM_VERSIONS = [1];
+
+export interface CurriculumValidation {
+  pack?: CurriculumPack;
+  errors: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Languages the app doesn't know yet are allowed, so packs can be written ahead of time
+const isLocalizedNames = (value: unknown): value is LocalizedNames =>
+  isObject(value) && Object.values(value).every(isNonEmptyString);
+
+/**
+ * Checks that parsed JSON is a curriculum pack this version of the app can use.
+ * Every problem is reported with its path so teachers can fix their file.
+ */
+export function validateCurriculumPack(data: unknown): CurriculumValidation {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { errors: ['The file must contain a JSON object.'] };
+  }
+  if (data.format !== CURRICULUM_FORMAT) {
+    errors.push(`"format" must be "${CURRICULUM_FORMAT}".`);
+  }
+  if (!SUPPORTED_CURRICULUM_VERSIONS.includes(data.version as number)) {
+    errors.push(`"version" ${JSON.stringify(data.version)} is not supported (supported: ${SUPPORTED_CURRICULUM_VERSIONS.join(', ')}).`);
+  }
+  if (!isNonEmptyString(data.id)) errors.push('"id" must be a non-empty string.');
+  if (!isNonEmptyString(data.name)) errors.push('"name" must be a non-empty string.');
+  if (data.description !== undefined && typeof data.description !== 'string') errors.push('"description" must be a string.');
+  if (data.author !== undefined && typeof data.author !== 'string') errors.push('"author" must be a string.');
+
+  if (!Array.isArray(data.levels) || data.levels.length === 0) {
+    errors.push('"levels" must be a non-empty array.');
+    return { errors };
+  }
+
+  const levelIds = new Set<string>();
+  data.levels.forEach((level: unknown, i: number) => {
+    const path = `levels[${i}]`;
+    if (!isObject(level)) {
+      errors.push(`${path} must be an object.`);
+      return;
+    }
+    if (!isNonEmptyString(level.id)) {
+      errors.push(`${path}.id must be a non-empty string.`);
+    } else if (levelIds.has(level.id)) {
+      errors.push(`${path}.id "${level.id}" is used by another level.`);
+    } else {
+      levelIds.add(level.id);
+    }
+    if (!isNonEmptyString(level.name)) errors.push(`${path}.name must be a non-empty string.`);
+    if (level.localizedNames !== undefined && !isLocalizedNames(level.localizedNames)) {
+      errors.push(`${path}.localizedNames must map language codes to non-empty strings.`);
+    }
+    if (!isObject(level.ages) || typeof level.ages.min !== 'number' || typeof level.ages.max !== 'number' || level.ages.min > level.ages.max) {
+      errors.push(`${path}.ages must be { "min": number, "max": number } with min <= max.`);
+    }
+    if (!isNonEmptyString(level.style)) errors.push(`${path}.style must be a non-empty string.`);
+    if (!isNonEmptyString(level.hintStrategy)) errors.push(`${path}.hintStrategy must be a non-empty string.`);
+
+    const vocabulary = level.vocabulary;
+    if (!isObject(vocabulary) || typeof vocabulary.maxSentenceWords !== 'number' || vocabulary.maxSentenceWords < 1) {
+      errors.push(`${path}.vocabulary.maxSentenceWords must be a positive number.`);
+    } else {
+      if (vocabulary.minSentenceWords !== undefined && (typeof vocabulary.minSentenceWords !== 'number' || vocabulary.minSentenceWords > vocabulary.maxSentenceWords)) {
+        errors.push(`${path}.vocabulary.minSentenceWords must be a number no larger than maxSentenceWords.`);
+      }
+      if (vocabulary.notes !== undefined && typeof vocabulary.notes !== 'string') errors.push(`${path}.vocabulary.notes must be a string.`);
+      if (vocabulary.avoidWords !== undefined && !isStringArray(vocabulary.avoidWords)) errors.push(`${path}.vocabulary.avoidWords must be an array of strings.`);
+    }
+
+    if (!Array.isArray(level.topics) || level.topics.length === 0) {
+      errors.push(`${path}.topics must be a non-empty array.`);
+      return;
+    }
+    const topicIds = new Set<string>();
+    level.topics.forEach((topic: unknown, j: number) => {
+      const topicPath = `${path}.topics[${j}]`;
+      if (!isObject(topic)) {
+        errors.push(`${topicPath} must be an object.`);
+        return;
+      }
+      if (!isNonEmptyString(topic.id)) {
+        errors.push(`${topicPath}.id must be a non-empty string.`);
+      } else if (topicIds.has(topic.id)) {
+        errors.push(`${topicPath}.id "${topic.id}" is used by another topic in this level.`);
+      } else {
+        topicIds.add(topic.id);
+      }
+      if (!isNonEmptyString(topic.name)) errors.push(`${topicPath}.name must be a non-empty string.`);
+      if (topic.localizedNames !== undefined && !isLocalizedNames(topic.localizedNames)) {
+        errors.push(`${topicPath}.localizedNames must map language codes to non-empty strings.`);
+      }
+      if (typeof topic.description !== 'string') errors.push(`${topicPath}.description must be a string.`);
+      if (!isStringArray(topic.exampleQuestions)) errors.push(`${topicPath}.exampleQuestions must be an array of strings.`);
+    });
+  });
+
+  return errors.length > 0 ? { errors } : { pack: data as unknown as CurriculumPack, errors };
+}
+
+/**
+ * Finds a level by id, falling back to the easiest level if the pack doesn't have it.
+ */
+export function getCurriculumLevel(pack: CurriculumPack, levelId: string): CurriculumLevel {
+  return pack.levels.find(level => level.id === levelId) ?? pack.levels[0];
+}
+
+export function getLevelIds(pack: CurriculumPack): string[] {
+  return pack.levels.map(level => level.id);
+}
+
+/**
+ * The name of a level or topic in the given language, or its canonical name if the pack has no translation.
+ */
+export function getLocalizedName(item: { name: string; localizedNames?: LocalizedNames }, language: LanguageCode): string {
+  return item.localizedNames?.[language] ?? item.name;
+}
+
+// Case, accents and surrounding punctuation are ignored when comparing topic names
+const foldTopic = (topic: string) =>
+  topic.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/^[\s"'.]+|[\s"'.]+$/g, '').toLowerCase();
+
+/**
+ * Maps a topic reported by Mimi, possibly translated, to the canonical topic name
+ * from the pack so mastery and analytics line up across languages.
+ * Topics the pack doesn't know are kept as reported.
+ */
+export function normalizeTopic(pack: CurriculumPack, topic: string): string {
+  const folded = foldTopic(topic);
+  for (const level of pack.levels) {
+    for (const candidate of level.topics) {
+      const names = [candidate.id, candidate.name, ...Object.values(candidate.localizedNames ?? {})];
+      if (names.some(name => name && foldTopic(name) === folded)) return candidate.name;
+    }
+  }
+  return topic.trim();
+}
+
+/**
+ * Canonical name of a topic shown in the given language, for topics stored by `normalizeTopic`.
+ */
+export function localizeTopic(pack: CurriculumPack, topic: string, language: LanguageCode): string {
+  for (const level of pack.levels) {
+    const match = level.topics.find(t => t.name === topic);
+    if (match) return getLocalizedName(match, language);
+  }
+  return topic;
+}
@@ -0,0 +1,4 @@
+/**
+ * Generates a short unique id for locally stored records.
+ */
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,24 @@
+import { EvaluationRecord, SessionRecord } from '../types';
+
+// Question counts offered for lessons; free play has no count
+export const LESSON_LENGTHS = [5, 10, 15];
+
+export interface LessonSummary {
+  answered: number;
+  correct: number;
+  stars: number; // One for each right answer
+  topics: string[]; // In the order they first came up
+}
+
+/**
+ * How a lesson went, from the answers given in its session.
+ */
+export function summarizeLesson(session: SessionRecord, evaluations: EvaluationRecord[]): LessonSummary {
+  const answers = evaluations.filter(e => e.sessionId === session.id);
+  const correct = answers.filter(e => e.isCorrect).length;
+  const topics = [...new Set(answers.map(e => e.topic).filter((topic): topic is string => !!topic))];
+  return { answered: answers.length, correct, stars: correct, topics };
+}
+
+export const isLessonComplete = (session: SessionRecord, summary: LessonSummary): boolean =>
+  session.lessonLength !== undefined && summary.answered >= session.lessonLength;
@@ -0,0 +1,74 @@
+// Bands of the voice that shape the mouth, in Hz
+const ROUND_BAND: [number, number] = [80, 700];    // "oo" and "oh" sounds
+const OPEN_BAND: [number, number] = [700, 2500];   // "ah" and "ee" sounds
+const HISS_BAND: [number, number] = [2500, 6000];  // "s", "sh" and "f" sounds
+const FFT_SIZE = 512; // ~21ms frames at 24kHz
+const SMOOTHING = 0.5;
+// Loudness below this counts as a closed mouth
+const MIN_LEVEL = 0.02;
+const LEVEL_GAIN = 4;
+
+// One frame of Mimi's voice. Band values are shares of the voice's energy and add up to 1.
+export interface MouthShape {
+  level: number; // Loudness (0-1): how far the mouth opens
+  round: number; // Low sounds: a narrow, round mouth
+  open: number;  // Middle sounds: a wide, open mouth
+  hiss: number;  // High sounds: a flat mouth
+}
+
+export const CLOSED_MOUTH: MouthShape = { level: 0, round: 0, open: 0, hiss: 0 };
+
+/**
+ * Adds an analyser in front of the context's speakers. Connect voice audio to it
+ * instead of the destination so it is both heard and measured.
+ */
+export function createLipSyncAnalyser(ctx: AudioContext): AnalyserNode {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = SMOOTHING;
+  analyser.connect(ctx.destination);
+  return analyser;
+}
+
+const getBandEnergy = (frequencies: Uint8Array, [from, to]: [number, number], binHz: number): number => {
+  const first = Math.max(0, Math.floor(from / binHz));
+  const last = Math.min(frequencies.length - 1, Math.ceil(to / binHz));
+  let sum = 0;
+  for (let i = first; i <= last; i++) sum += frequencies[i];
+  return sum / ((last - first + 1) * 255);
+};
+
+/**
+ * Works out a mouth shape from one analyser frame: byte time-domain samples
+ * for loudness and byte frequency magnitudes for the bands.
+ */
+export function getMouthShape(samples: Uint8Array, frequencies: Uint8Array, sampleRate: number): MouthShape {
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = (samples[i] - 128) / 128;
+    sumSquares += sample * sample;
+  }
+  const level = Math.min(1, Math.sqrt(sumSquares / samples.length) * LEVEL_GAIN);
+  if (level < MIN_LEVEL) return CLOSED_MOUTH;
+
+  const binHz = sampleRate / (frequencies.length * 2);
+  const round = getBandEnergy(frequencies, ROUND_BAND, binHz);
+  const open = getBandEnergy(frequencies, OPEN_BAND, binHz);
+  const hiss = getBandEnergy(frequencies, HISS_BAND, binHz);
+  const total = round + open + hiss;
+  if (total === 0) return { level, round: 0, open: 1, hiss: 0 };
+  return { level, round: round / total, open: open / total, hiss: hiss / total };
+}
+
+/**
+ * Returns a function that reads the analyser's current mouth shape, reusing its buffers.
+ */
+export function createMouthReader(analyser: AnalyserNode): () => MouthShape {
+  const samples = new Uint8Array(analyser.fftSize);
+  const frequencies = new Uint8Array(analyser.frequencyBinCount);
+  return () => {
+    analyser.getByteTimeDomainData(samples);
+    analyser.getByteFrequencyData(frequencies);
+    return getMouthShape(samples, frequencies, analyser.context.sampleRate);
+  };
+}
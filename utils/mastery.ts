@@ -0,0 +1,49 @@
+import { EvaluationRecord, TopicMastery } from '../types';
+
+// How much each new answer moves the score (higher = reacts faster)
+const SMOOTHING = 0.3;
+const MASTERED_SCORE = 0.8;
+const MASTERED_MIN_ATTEMPTS = 4;
+
+export type MasteryLevel = 'learning' | 'practicing' | 'mastered';
+
+/**
+ * Folds one answer into a topic's mastery. The score starts at 0 so a single
+ * lucky answer cannot mark a topic as known.
+ */
+export function updateMastery(prev: TopicMastery | undefined, record: EvaluationRecord): TopicMastery {
+  const topic = record.topic ?? prev?.topic ?? 'General';
+  const score = prev?.score ?? 0;
+  return {
+    topic,
+    attempts: (prev?.attempts ?? 0) + 1,
+    correct: (prev?.correct ?? 0) + (record.isCorrect ? 1 : 0),
+    score: score + SMOOTHING * ((record.isCorrect ? 1 : 0) - score),
+    lastPracticed: record.timestamp,
+  };
+}
+
+/**
+ * Rebuilds the mastery table for every topic from a list of evaluation records.
+ */
+export function computeMastery(records: EvaluationRecord[]): Record<string, TopicMastery> {
+  const mastery: Record<string, TopicMastery> = {};
+  for (const record of records) {
+    if (!record.topic) continue;
+    mastery[record.topic] = updateMastery(mastery[record.topic], record);
+  }
+  return mastery;
+}
+
+export function getMasteryLevel(mastery: TopicMastery): MasteryLevel {
+  if (mastery.score >= MASTERED_SCORE && mastery.attempts >= MASTERED_MIN_ATTEMPTS) return 'mastered';
+  if (mastery.score >= 0.5) return 'practicing';
+  return 'learning';
+}
+
+/**
+ * Returns topics with the best-known first, ties broken by most recent practice.
+ */
+export function sortMastery(mastery: Record<string, TopicMastery>): TopicMastery[] {
+  return Object.values(mastery).sort((a, b) => b.score - a.score || b.lastPracticed - a.lastPracticed);
+}
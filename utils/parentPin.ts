@@ -0,0 +1,12 @@
+const PIN_STORAGE_KEY = 'mimi_parent_pin_v1';
+
+// The PIN only keeps small hands out of the parent area, so it is kept as plain text.
+export const hasParentPin = (): boolean => !!localStorage.getItem(PIN_STORAGE_KEY);
+
+export const setParentPin = (pin: string) => {
+  localStorage.setItem(PIN_STORAGE_KEY, pin);
+};
+
+export const checkParentPin = (pin: string): boolean => localStorage.getItem(PIN_STORAGE_KEY) === pin;
+
+export const isValidPin = (pin: string): boolean => /^\d{4}$/.test(pin);
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { ChildProfile } from '../types';
+import { copyProfile, exportAnswersCsv, exportProfile, getExportFileName, mergeProfiles, validateProfileBackup } from './profileExport';
+import { alert, evaluation, profile, session, turn } from '../test/fixtures';
+
+describe('validateProfileBackup', () => {
+  it('accepts what exportProfile writes', () => {
+    const child = profile({ evaluations: [evaluation('e1')], sessions: [session('s1')] });
+    expect(validateProfileBackup(JSON.parse(exportProfile(child)))).toEqual({ profile: child, errors: [] });
+  });
+
+  it('accepts old backups without the fields added since', () => {
+    const backup = { format: 'mimi-profile', version: 1, profile: { id: 'a', name: 'Ana', avatar: 'cat', progress: { stars: 0, difficulty: 'Easy' } } };
+    expect(validateProfileBackup(backup).errors).toEqual([]);
+  });
+
+  it('rejects files that are not a backup it can read', () => {
+    expect(validateProfileBackup([1, 2])).toEqual({ failure: 'backup.notBackup', errors: [] });
+    expect(validateProfileBackup({ format: 'other', version: 1 })).toEqual({ failure: 'backup.notBackup', errors: [] });
+    expect(validateProfileBackup({ format: 'mimi-profile', version: 2 })).toEqual({ failure: 'backup.unsupportedVersion', errors: [] });
+    expect(validateProfileBackup({ format: 'mimi-profile', version: 1, profile: [] })).toEqual({ failure: 'backup.noProfile', errors: [] });
+  });
+
+  it('lists every problem with the profile', () => {
+    const backup = {
+      format: 'mimi-profile',
+      version: 1,
+      profile: {
+        id: '',
+        name: 'Ana',
+        avatar: 'cat',
+        language: 'fr',
+        progress: { stars: -1, difficulty: 'Easy' },
+        evaluations: [evaluation('e1'), { id: 'e2', sessionId: 's1' }],
+        sessions: 'none',
+        transcripts: [{ id: 't1' }],
+        badges: {},
+      },
+    };
+    const { profile: restored, failure, errors } = validateProfileBackup(backup);
+    expect(restored).toBeUndefined();
+    expect(failure).toBeUndefined();
+    expect(errors).toEqual([
+      'profile.id must be a non-empty string.',
+      'profile.language "fr" is not a supported language.',
+      'profile.progress.stars must be a number of 0 or more.',
+      'profile.evaluations[1] must be { "id", "sessionId", "timestamp", "isCorrect", "difficulty" }.',
+      'profile.sessions must be an array.',
+      'profile.transcripts[0] must be an object with "id" and "sessionId".',
+      'profile.badges must be an array.',
+    ]);
+  });
+});
+
+describe('mergeProfiles', () => {
+  const local = profile({
+    name: 'Ana (tablet)',
+    progress: { difficulty: 'Medium', curriculumId: 'mimi-starter', adaptiveDifficulty: true, stars: 3, mastery: {} },
+    evaluations: [evaluation('e1'), evaluation('e3', { timestamp: 3000, isCorrect: false })],
+    sessions: [session('s1')],
+    badges: [{ badgeId: 'first-star', earnedAt: 1000 }],
+  });
+  const imported = profile({
+    name: 'Ana (phone)',
+    progress: {
+      difficulty: 'Easy',
+      curriculumId: 'mimi-starter',
+      adaptiveDifficulty: false,
+      stars: 9,
+      mastery: { Shapes: { topic: 'Shapes', attempts: 1, correct: 1, score: 0.3, lastPracticed: 0 } },
+    },
+    evaluations: [evaluation('e1'), evaluation('e2', { timestamp: 2000 }), evaluation('e4', { timestamp: 4000, isCorrect: false })],
+    sessions: [session('s1'), session('s2')],
+    badges: [{ badgeId: 'first-star', earnedAt: 5000 }, { badgeId: 'streak', earnedAt: 6000 }],
+  });
+
+  it('keeps local settings and joins history in order without duplicates', () => {
+    const merged = mergeProfiles(local, imported);
+    expect(merged.name).toBe('Ana (tablet)');
+    expect(merged.progress.difficulty).toBe('Medium');
+    expect(merged.evaluations.map(e => e.id)).toEqual(['e1', 'e2', 'e3', 'e4']);
+    expect(merged.sessions.map(s => s.id)).toEqual(['s1', 's2']);
+    expect(merged.badges).toEqual([{ badgeId: 'first-star', earnedAt: 1000 }, { badgeId: 'streak', earnedAt: 6000 }]);
+  });
+
+  it('adds stars only for right answers that were only in the backup', () => {
+    expect(mergeProfiles(local, imported).progress.stars).toBe(4);
+  });
+
+  it('rebuilds mastery from the joined answers and keeps topics without answers', () => {
+    const { mastery } = mergeProfiles(local, imported).progress;
+    expect(mastery.Counting).toMatchObject({ attempts: 4, correct: 2, lastPracticed: 4000 });
+    expect(mastery.Shapes).toEqual(imported.progress.mastery.Shapes);
+  });
+
+  it('changes nothing when merging a profile with itself', () => {
+    expect(mergeProfiles(local, local)).toEqual({ ...local, progress: { ...local.progress, mastery: expect.any(Object) } });
+  });
+});
+
+describe('copyProfile', () => {
+  it('gives the profile, sessions and answers new ids and keeps their links', () => {
+    const original = profile({
+      sessions: [session('s1')],
+      evaluations: [evaluation('e1')],
+      levelChanges: [{ id: 'l1', sessionId: 's1', timestamp: 1000, from: 'Easy', to: 'Medium', accuracy: 0.9 }],
+      transcripts: [turn('t1', { evaluationId: 'e1' }), turn('t2')],
+      safetyAlerts: [alert('x1')],
+    });
+    const copy = copyProfile(original);
+
+    expect(copy.id).not.toBe(original.id);
+    const [newSession] = copy.sessions;
+    const [newEvaluation] = copy.evaluations;
+    expect(newSession.id).not.toBe('s1');
+    expect(newEvaluation.id).not.toBe('e1');
+    expect(newEvaluation.sessionId).toBe(newSession.id);
+    expect(copy.levelChanges[0].sessionId).toBe(newSession.id);
+    expect(copy.transcripts.map(t => [t.sessionId, t.evaluationId])).toEqual([[newSession.id, newEvaluation.id], [newSession.id, undefined]]);
+    expect(copy.safetyAlerts[0].sessionId).toBe(newSession.id);
+    // The original is left alone
+    expect(original.sessions[0].id).toBe('s1');
+  });
+
+  it('shares no record id with the original, as records of all children are stored by id', () => {
+    const original = profile({
+      sessions: [session('s1')],
+      evaluations: [evaluation('e1')],
+      levelChanges: [{ id: 'l1', sessionId: 's1', timestamp: 1000, from: 'Easy', to: 'Medium', accuracy: 0.9 }],
+      transcripts: [turn('t1', { evaluationId: 'e1' })],
+      safetyAlerts: [alert('x1')],
+    });
+    const recordIds = (p: ChildProfile) =>
+      [p.sessions, p.evaluations, p.levelChanges, p.transcripts, p.safetyAlerts].flatMap(records => records.map(r => r.id));
+
+    const copy = copyProfile(original);
+    expect(recordIds(copy)).toHaveLength(5);
+    expect(recordIds(copy).filter(id => recordIds(original).includes(id))).toEqual([]);
+  });
+});
+
+describe('exportAnswersCsv', () => {
+  it('writes one row per answer, oldest first', () => {
+    const child = profile({ evaluations: [evaluation('e2', { timestamp: new Date(2026, 4, 10, 9, 5).getTime(), isCorrect: false }), evaluation('e1', { timestamp: new Date(2026, 4, 9, 17, 30).getTime() })] });
+    const lines = exportAnswersCsv(child, topic => `[${topic}]`, level => level.toUpperCase()).split('\r\n');
+    expect(lines).toEqual([
+      '\uFEFFchild,date,time,session,level,topic,correct',
+      'Ana,2026-05-09,17:30,s1,EASY,[Counting],yes',
+      'Ana,2026-05-10,09:05,s1,EASY,[Counting],no',
+      '',
+    ]);
+  });
+
+  it('quotes values that need it and keeps formulas from running', () => {
+    const child = profile({ name: '=HYPERLINK("x")', evaluations: [evaluation('e1', { sessionId: 'a,b' })] });
+    const [, row] = exportAnswersCsv(child).split('\r\n');
+    expect(row.startsWith(`"'=HYPERLINK(""x"")",`)).toBe(true);
+    expect(row).toContain(',"a,b",');
+  });
+});
+
+describe('getExportFileName', () => {
+  it('names the file after the child and the day', () => {
+    const day = new Date(2026, 4, 1, 12).getTime();
+    expect(getExportFileName(profile({ name: 'José María' }), 'csv', day)).toBe('mimi-jose-maria-2026-05-01.csv');
+    expect(getExportFileName(profile({ name: '!!!' }), 'json', day)).toBe('mimi-child-2026-05-01.json');
+  });
+});
@@ -0,0 +1,212 @@
+import { ChildProfile, EvaluationRecord } from '../types';
+import { isLanguageCode, MessageKey } from '../i18n';
+import { SavedProfile } from '../services/profileStorage';
+import { toDayKey } from './analytics';
+import { computeMastery } from './mastery';
+import { createId } from './ids';
+
+export const PROFILE_BACKUP_FORMAT = 'mimi-profile';
+export const PROFILE_BACKUP_VERSION = 1;
+export const SUPPORTED_PROFILE_BACKUP_VERSIONS = [1];
+
+export interface ProfileBackup {
+  format: typeof PROFILE_BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  profile: ChildProfile;
+}
+
+export interface ProfileBackupValidation {
+  profile?: SavedProfile;
+  failure?: MessageKey; // Set when the file can't be restored at all, shown in the parent's language
+  errors: string[]; // Problems with single fields of the profile, by path
+}
+
+// What to do when a backup is of a child who is already on this device
+export type ImportResolution = 'merge' | 'replace' | 'copy';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * A child's whole profile, with settings and history, as a JSON backup.
+ */
+export function exportProfile(profile: ChildProfile): string {
+  const backup: ProfileBackup = {
+    format: PROFILE_BACKUP_FORMAT,
+    version: PROFILE_BACKUP_VERSION,
+    exportedAt: Date.now(),
+    profile,
+  };
+  return JSON.stringify(backup, null, 2);
+}
+
+/**
+ * Checks that parsed JSON is a profile backup this version of the app can
+ * restore. Fields added after the backup was made are filled in on import.
+ */
+export function validateProfileBackup(data: unknown): ProfileBackupValidation {
+  if (!isObject(data) || data.format !== PROFILE_BACKUP_FORMAT) {
+    return { failure: 'backup.notBackup', errors: [] };
+  }
+  if (!SUPPORTED_PROFILE_BACKUP_VERSIONS.includes(data.version as number)) {
+    return { failure: 'backup.unsupportedVersion', errors: [] };
+  }
+
+  const errors: string[] = [];
+  const profile = data.profile;
+  if (!isObject(profile)) {
+    return { failure: 'backup.noProfile', errors: [] };
+  }
+  if (!isNonEmptyString(profile.id)) errors.push('profile.id must be a non-empty string.');
+  if (!isNonEmptyString(profile.name)) errors.push('profile.name must be a non-empty string.');
+  if (!isNonEmptyString(profile.avatar)) errors.push('profile.avatar must be a non-empty string.');
+  if (profile.language !== undefined && !isLanguageCode(profile.language)) {
+    errors.push(`profile.language ${JSON.stringify(profile.language)} is not a supported language.`);
+  }
+
+  const progress = profile.progress;
+  if (!isObject(progress)) {
+    errors.push('profile.progress must be an object.');
+  } else {
+    if (typeof progress.stars !== 'number' || progress.stars < 0) errors.push('profile.progress.stars must be a number of 0 or more.');
+    if (!isNonEmptyString(progress.difficulty)) errors.push('profile.progress.difficulty must be a non-empty string.');
+    if (progress.mastery !== undefined && !isObject(progress.mastery)) errors.push('profile.progress.mastery must be an object.');
+  }
+
+  const checkRecords = (key: string, isValid: (record: Record<string, unknown>) => boolean, shape: string) => {
+    const records = profile[key];
+    if (records === undefined) return;
+    if (!Array.isArray(records)) {
+      errors.push(`profile.${key} must be an array.`);
+      return;
+    }
+    records.forEach((record: unknown, i: number) => {
+      if (!isObject(record) || !isNonEmptyString(record.id) || !isValid(record)) {
+        errors.push(`profile.${key}[${i}] must be ${shape}.`);
+      }
+    });
+  };
+  checkRecords(
+    'evaluations',
+    r => typeof r.sessionId === 'string' && typeof r.timestamp === 'number' && typeof r.isCorrect === 'boolean' && typeof r.difficulty === 'string',
+    '{ "id", "sessionId", "timestamp", "isCorrect", "difficulty" }'
+  );
+  checkRecords(
+    'sessions',
+    r => typeof r.startedAt === 'number' && typeof r.difficulty === 'string',
+    '{ "id", "startedAt", "difficulty" }'
+  );
+  for (const key of ['levelChanges', 'transcripts', 'safetyAlerts']) {
+    checkRecords(key, r => typeof r.sessionId === 'string', 'an object with "id" and "sessionId"');
+  }
+  if (profile.badges !== undefined && !Array.isArray(profile.badges)) errors.push('profile.badges must be an array.');
+
+  return errors.length > 0 ? { errors } : { profile: profile as unknown as SavedProfile, errors };
+}
+
+// Items from both lists, the local copy winning when ids match
+const mergeById = <T extends { id: string }>(local: T[], imported: T[]): T[] => {
+  const ids = new Set(local.map(item => item.id));
+  return [...local, ...imported.filter(item => !ids.has(item.id))];
+};
+
+/**
+ * Combines a backup with the same child's profile on this device. Local
+ * settings are kept, history from both is joined, and stars are added for
+ * right answers that were only in the backup.
+ */
+export function mergeProfiles(local: ChildProfile, imported: ChildProfile): ChildProfile {
+  const localEvaluationIds = new Set(local.evaluations.map(e => e.id));
+  const newStars = imported.evaluations.filter(e => e.isCorrect && !localEvaluationIds.has(e.id)).length;
+  const evaluations = mergeById(local.evaluations, imported.evaluations).sort((a, b) => a.timestamp - b.timestamp);
+  const earnedIds = new Set(local.badges.map(b => b.badgeId));
+
+  return {
+    ...local,
+    progress: {
+      ...local.progress,
+      stars: local.progress.stars + newStars,
+      // Topics without answers, such as ones carried over from old saves, are kept as they are
+      mastery: { ...imported.progress.mastery, ...local.progress.mastery, ...computeMastery(evaluations) },
+    },
+    evaluations,
+    levelChanges: mergeById(local.levelChanges, imported.levelChanges),
+    sessions: mergeById(local.sessions, imported.sessions),
+    transcripts: mergeById(local.transcripts, imported.transcripts),
+    safetyAlerts: mergeById(local.safetyAlerts, imported.safetyAlerts),
+    badges: [...local.badges, ...imported.badges.filter(b => !earnedIds.has(b.badgeId))],
+  };
+}
+
+/**
+ * Gives a restored profile and every one of its records new ids, so it can sit
+ * next to the profile it was exported from. Records are stored by id across all
+ * children, so a shared id would overwrite the original child's record.
+ */
+export function copyProfile(profile: ChildProfile): ChildProfile {
+  const sessionIds = new Map(profile.sessions.map(s => [s.id, createId()]));
+  const evaluationIds = new Map(profile.evaluations.map(e => [e.id, createId()]));
+  const newSessionId = (id: string) => sessionIds.get(id) ?? id;
+
+  return {
+    ...profile,
+    id: createId(),
+    sessions: profile.sessions.map(s => ({ ...s, id: newSessionId(s.id) })),
+    evaluations: profile.evaluations.map(e => ({ ...e, id: evaluationIds.get(e.id) ?? e.id, sessionId: newSessionId(e.sessionId) })),
+    levelChanges: profile.levelChanges.map(c => ({ ...c, id: createId(), sessionId: newSessionId(c.sessionId) })),
+    transcripts: profile.transcripts.map(turn => ({
+      ...turn,
+      id: createId(),
+      sessionId: newSessionId(turn.sessionId),
+      evaluationId: turn.evaluationId && (evaluationIds.get(turn.evaluationId) ?? turn.evaluationId),
+    })),
+    safetyAlerts: profile.safetyAlerts.map(a => ({ ...a, id: createId(), sessionId: newSessionId(a.sessionId) })),
+  };
+}
+
+const CSV_COLUMNS = ['child', 'date', 'time', 'session', 'level', 'topic', 'correct'];
+
+// Quotes values that need it, and stops spreadsheets reading text as formulas
+const toCsvValue = (value: string): string => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Every answer a child gave, one row each, for opening in a spreadsheet.
+ * Starts with a byte order mark so spreadsheet apps read it as UTF-8.
+ */
+export function exportAnswersCsv(
+  profile: ChildProfile,
+  formatTopic: (topic: string) => string = topic => topic,
+  formatLevel: (levelId: string) => string = levelId => levelId
+): string {
+  const rows = [...profile.evaluations]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((e: EvaluationRecord) => {
+      const time = new Date(e.timestamp);
+      return [
+        profile.name,
+        toDayKey(e.timestamp),
+        `${String(time.getHours()).padStart(2, '0')}:${String(time.getMinutes()).padStart(2, '0')}`,
+        e.sessionId,
+        formatLevel(e.difficulty),
+        e.topic ? formatTopic(e.topic) : '',
+        e.isCorrect ? 'yes' : 'no',
+      ];
+    });
+  return '\uFEFF' + [CSV_COLUMNS, ...rows].map(row => row.map(toCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * A file name for a child's export, such as "mimi-ana-2024-05-01.csv".
+ * Dated today unless given the time of what is being exported.
+ */
+export function getExportFileName(profile: ChildProfile, extension: string, timestamp = Date.now()): string {
+  const name = profile.name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+  return `mimi-${name || 'child'}-${toDayKey(timestamp)}.${extension}`;
+}
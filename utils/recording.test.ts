@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { ChildProfile, RecordingInfo, SessionRecording } from '../types';
+import { createSessionRecorder, getExpiredRecordings, getRecordingBytes, renderRecordingWav } from './recording';
+import { WAV_HEADER_BYTES } from './audio';
+
+// A recorder on a clock the test moves by hand, with both tracks at 1000 samples a second
+const createTestRecorder = () => {
+  let time = 10000;
+  const recorder = createSessionRecorder(1000, 1000, () => time);
+  return { recorder, advance: (ms: number) => { time += ms; } };
+};
+
+const samples = (count: number, value: number) => new Int16Array(count).fill(value);
+
+describe('createSessionRecorder', () => {
+  it('returns nothing when nothing was recorded', () => {
+    expect(createTestRecorder().recorder.finish('s1')).toBeNull();
+  });
+
+  it('joins audio that follows on and starts a new segment after a gap', () => {
+    const { recorder, advance } = createTestRecorder();
+    advance(100);
+    recorder.addChildAudio(samples(100, 1)); // 0-100ms
+    advance(100);
+    recorder.addChildAudio(samples(100, 2)); // 100-200ms
+    advance(800);
+    recorder.addChildAudio(samples(100, 3)); // 900-1000ms
+
+    const recording = recorder.finish('s1');
+    expect(recording).toMatchObject({ id: 's1', startedAt: 10000, durationMs: 1000 });
+    expect(recording?.child.segments.map(s => [s.offsetMs, s.pcm.length, s.pcm[0], s.pcm[s.pcm.length - 1]])).toEqual([
+      [0, 200, 1, 2],
+      [900, 100, 3, 3],
+    ]);
+    expect(recording?.mimi.segments).toEqual([]);
+  });
+
+  it('places child audio by when it ended', () => {
+    const { recorder } = createTestRecorder();
+    recorder.addChildAudio(samples(100, 1), 10500);
+    expect(recorder.finish('s1')?.child.segments[0].offsetMs).toBe(400);
+  });
+
+  it('places Mimi where her audio is scheduled and drops what is cut off', () => {
+    const { recorder, advance } = createTestRecorder();
+    recorder.addMimiAudio(samples(300, 5), 10000); // 0-300ms
+    recorder.addMimiAudio(samples(300, 6), 10300); // 300-600ms
+    recorder.addMimiAudio(samples(300, 7), 11000); // 1000-1300ms
+    advance(450);
+    recorder.cutMimiAudio();
+
+    const recording = recorder.finish('s1');
+    expect(recording?.durationMs).toBe(450);
+    const [segment] = recording?.mimi.segments ?? [];
+    expect(recording?.mimi.segments).toHaveLength(1);
+    expect(segment.pcm.length).toBe(450);
+    expect(segment.pcm[299]).toBe(5);
+    expect(segment.pcm[449]).toBe(6);
+  });
+});
+
+// The interleaved samples of a WAV file, and its channel count and sample rate
+const readWav = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer);
+  const samples = Array.from({ length: (bytes.length - WAV_HEADER_BYTES) / 2 }, (_, i) => view.getInt16(WAV_HEADER_BYTES + i * 2, true));
+  return { samples, channels: view.getUint16(22, true), sampleRate: view.getUint32(24, true) };
+};
+
+describe('renderRecordingWav', () => {
+  const recording: SessionRecording = {
+    id: 's1',
+    startedAt: 0,
+    durationMs: 4,
+    child: { sampleRate: 500, segments: [{ offsetMs: 0, pcm: Int16Array.from([100, 300]) }] },
+    mimi: { sampleRate: 1000, segments: [{ offsetMs: 2, pcm: Int16Array.from([1000, 2000]) }] },
+  };
+
+  it('puts the child on the left and Mimi on the right, at Mimi\'s sample rate', () => {
+    // The child's audio is resampled from 500 to 1000 samples a second
+    expect(readWav(renderRecordingWav(recording, 'tracks'))).toEqual({
+      samples: [100, 0, 200, 0, 300, 1000, 300, 2000],
+      channels: 2,
+      sampleRate: 1000,
+    });
+  });
+
+  it('mixes both voices into one channel without overflowing', () => {
+    const loud: SessionRecording = {
+      ...recording,
+      durationMs: 2,
+      child: { sampleRate: 1000, segments: [{ offsetMs: 0, pcm: Int16Array.from([30000, -30000]) }] },
+      mimi: { sampleRate: 1000, segments: [{ offsetMs: 0, pcm: Int16Array.from([10000, -10000]) }] },
+    };
+    expect(readWav(renderRecordingWav(recording, 'mixed'))).toMatchObject({ samples: [100, 200, 1300, 2300], channels: 1 });
+    expect(readWav(renderRecordingWav(loud, 'mixed')).samples).toEqual([32767, -32768]);
+  });
+
+  it('drops audio past the end of the recording', () => {
+    expect(readWav(renderRecordingWav({ ...recording, durationMs: 3 }, 'tracks')).samples).toEqual([100, 0, 200, 0, 300, 1000]);
+  });
+
+  it('renders audio that crosses from one block into the next', () => {
+    const ramp = Int16Array.from({ length: 3000 }, (_, i) => i);
+    const long: SessionRecording = {
+      ...recording,
+      durationMs: 70000,
+      child: { sampleRate: 500, segments: [{ offsetMs: 64000, pcm: ramp }] },
+      mimi: { sampleRate: 1000, segments: [{ offsetMs: 65000, pcm: ramp }] },
+    };
+    const { samples } = readWav(renderRecordingWav(long, 'tracks'));
+    const left = samples.filter((_, i) => i % 2 === 0);
+    const right = samples.filter((_, i) => i % 2 === 1);
+    expect(left.slice(65530, 65542)).toEqual([765, 765.5, 766, 766.5, 767, 767.5, 768, 768.5, 769, 769.5, 770, 770.5].map(Math.round));
+    expect(right.slice(65530, 65542)).toEqual(Array.from({ length: 12 }, (_, i) => 530 + i));
+    expect(right[67999]).toBe(2999);
+    expect(right[68000]).toBe(0);
+  });
+
+  it('counts the bytes of both tracks', () => {
+    expect(getRecordingBytes(recording)).toBe(8);
+  });
+});
+
+describe('getExpiredRecordings', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const now = 100 * DAY;
+  const info = (id: string, profileId: string, daysAgo: number): RecordingInfo =>
+    ({ id, profileId, startedAt: now - daysAgo * DAY, durationMs: 1000, bytes: 100 });
+  const profiles = [{ id: 'a', recording: { enabled: true, retentionDays: 7 } }] as ChildProfile[];
+
+  it('expires recordings past their retention and those of removed children', () => {
+    const recordings = [info('new', 'a', 6), info('old', 'a', 8), info('orphan', 'gone', 1)];
+    expect(getExpiredRecordings(recordings, profiles, now).map(r => r.id)).toEqual(['old', 'orphan']);
+  });
+});
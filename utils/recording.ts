@@ -0,0 +1,158 @@
+import { AudioTrack, ChildProfile, RecordingInfo, RecordingSettings, SessionRecording } from '../types';
+import { createWav, WAV_HEADER_BYTES } from './audio';
+
+export const DEFAULT_RECORDING: RecordingSettings = { enabled: false, retentionDays: 7 };
+export const RETENTION_OPTIONS = [3, 7, 30];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Audio arriving this close to the end of the previous stretch is joined onto it
+const JOIN_TOLERANCE_MS = 150;
+
+// A stretch of audio still being recorded, kept as chunks until the recording finishes
+interface OpenSegment {
+  offsetMs: number;
+  chunks: Int16Array[];
+  samples: number;
+}
+
+interface OpenTrack {
+  sampleRate: number;
+  segments: OpenSegment[];
+}
+
+const segmentEnd = (segment: OpenSegment, sampleRate: number) =>
+  segment.offsetMs + (segment.samples / sampleRate) * 1000;
+
+const addAudio = (track: OpenTrack, offsetMs: number, pcm: Int16Array) => {
+  const last = track.segments[track.segments.length - 1];
+  if (last && Math.abs(segmentEnd(last, track.sampleRate) - offsetMs) < JOIN_TOLERANCE_MS) {
+    last.chunks.push(pcm);
+    last.samples += pcm.length;
+  } else {
+    track.segments.push({ offsetMs: Math.max(0, offsetMs), chunks: [pcm], samples: pcm.length });
+  }
+};
+
+// Drops audio after the given time, such as Mimi's reply that was cut off by the child
+const cutAudio = (track: OpenTrack, atMs: number) => {
+  track.segments = track.segments.filter(s => s.offsetMs < atMs);
+  const last = track.segments[track.segments.length - 1];
+  if (!last || segmentEnd(last, track.sampleRate) <= atMs) return;
+
+  let keep = Math.floor(((atMs - last.offsetMs) / 1000) * track.sampleRate);
+  last.samples = keep;
+  last.chunks = last.chunks.flatMap(chunk => {
+    const part = chunk.subarray(0, Math.max(0, keep));
+    keep -= part.length;
+    return part.length > 0 ? [part] : [];
+  });
+};
+
+const closeTrack = (track: OpenTrack): AudioTrack => ({
+  sampleRate: track.sampleRate,
+  segments: track.segments.map(({ offsetMs, chunks, samples }) => {
+    const pcm = new Int16Array(samples);
+    let position = 0;
+    for (const chunk of chunks) {
+      pcm.set(chunk, position);
+      position += chunk.length;
+    }
+    return { offsetMs, pcm };
+  }),
+});
+
+export interface SessionRecorder {
+  addChildAudio(pcm: Int16Array, endsAt?: number): void; // Microphone audio that was sent; endsAt defaults to now, in ms since the epoch
+  addMimiAudio(pcm: Int16Array, playsAt: number): void; // playsAt is when playback is scheduled, in ms since the epoch
+  cutMimiAudio(): void; // Mimi was interrupted; audio that hasn't played yet is dropped
+  finish(id: string): SessionRecording | null; // Null if nothing was recorded
+}
+
+/**
+ * Records a class as two tracks lined up in time: the child's microphone and
+ * Mimi's voice. Silence between Mimi's replies isn't stored.
+ */
+export function createSessionRecorder(childSampleRate: number, mimiSampleRate: number, now = () => Date.now()): SessionRecorder {
+  const startedAt = now();
+  const child: OpenTrack = { sampleRate: childSampleRate, segments: [] };
+  const mimi: OpenTrack = { sampleRate: mimiSampleRate, segments: [] };
+
+  return {
+    addChildAudio: (pcm, endsAt = now()) => addAudio(child, endsAt - startedAt - (pcm.length / childSampleRate) * 1000, pcm),
+    addMimiAudio: (pcm, playsAt) => addAudio(mimi, playsAt - startedAt, pcm),
+    cutMimiAudio: () => cutAudio(mimi, now() - startedAt),
+    finish: id => {
+      const tracks = [closeTrack(child), closeTrack(mimi)];
+      if (tracks.every(t => t.segments.length === 0)) return null;
+      const durationMs = Math.max(0, ...tracks.flatMap(t => t.segments.map(s => s.offsetMs + (s.pcm.length / t.sampleRate) * 1000)));
+      return { id, startedAt, durationMs, child: tracks[0], mimi: tracks[1] };
+    },
+  };
+}
+
+export const getRecordingBytes = (recording: SessionRecording): number =>
+  [recording.child, recording.mimi].reduce((sum, track) => sum + track.segments.reduce((n, s) => n + s.pcm.byteLength, 0), 0);
+
+// Frames rendered at a time, so a long class never needs full-length copies of its tracks
+const RENDER_BLOCK_FRAMES = 65536;
+
+// Frames [from, from + size) of a track on a silent timeline of `length` frames,
+// resampled by linear interpolation
+const renderTrackBlock = (track: AudioTrack, sampleRate: number, length: number, from: number, size: number): Float32Array => {
+  const out = new Float32Array(size);
+  const ratio = track.sampleRate / sampleRate;
+  for (const { offsetMs, pcm } of track.segments) {
+    const start = Math.round((offsetMs / 1000) * sampleRate);
+    const count = Math.min(Math.floor(pcm.length / ratio), length - start);
+    for (let i = Math.max(0, from - start); i < Math.min(count, from + size - start); i++) {
+      const position = i * ratio;
+      const index = Math.floor(position);
+      const next = pcm[Math.min(index + 1, pcm.length - 1)];
+      out[start + i - from] = pcm[index] + (next - pcm[index]) * (position - index);
+    }
+  }
+  return out;
+};
+
+/**
+ * Turns a recording into a WAV file at Mimi's sample rate: one channel with
+ * both voices mixed, or the child on the left and Mimi on the right. The audio
+ * is rendered a block at a time straight into the file.
+ */
+export function renderRecordingWav(recording: SessionRecording, mode: 'mixed' | 'tracks'): Uint8Array {
+  const sampleRate = recording.mimi.sampleRate;
+  const length = Math.ceil((recording.durationMs / 1000) * sampleRate);
+  const bytes = createWav(mode === 'tracks' ? 2 : 1, length, sampleRate);
+  const view = new DataView(bytes.buffer);
+  let offset = WAV_HEADER_BYTES;
+  const write = (sample: number) => {
+    view.setInt16(offset, Math.max(-32768, Math.min(32767, Math.round(sample))), true);
+    offset += 2;
+  };
+
+  for (let from = 0; from < length; from += RENDER_BLOCK_FRAMES) {
+    const size = Math.min(RENDER_BLOCK_FRAMES, length - from);
+    const child = renderTrackBlock(recording.child, sampleRate, length, from, size);
+    const mimi = renderTrackBlock(recording.mimi, sampleRate, length, from, size);
+    for (let i = 0; i < size; i++) {
+      if (mode === 'tracks') {
+        write(child[i]);
+        write(mimi[i]);
+      } else {
+        write(child[i] + mimi[i]);
+      }
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Recordings that should no longer be kept: past their child's retention
+ * period, or belonging to a child who was removed.
+ */
+export function getExpiredRecordings(recordings: RecordingInfo[], profiles: ChildProfile[], now = Date.now()): RecordingInfo[] {
+  return recordings.filter(recording => {
+    const profile = profiles.find(p => p.id === recording.profileId);
+    return !profile || recording.startedAt < now - profile.recording.retentionDays * DAY_MS;
+  });
+}
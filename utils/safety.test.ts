@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { SafetySettings } from '../types';
+import { checkSafety, DEFAULT_SAFETY, isOffTopic, redactPersonalInfo } from './safety';
+
+const settings = (overrides: Partial<SafetySettings> = {}): SafetySettings => ({ ...DEFAULT_SAFETY, ...overrides });
+
+describe('checkSafety', () => {
+  it('lets ordinary class talk through', () => {
+    expect(checkSafety('Three apples and two apples make five apples!', settings())).toBeNull();
+    expect(checkSafety('¿Cuántos lados tiene un triángulo?', settings())).toBeNull();
+  });
+
+  it('finds blocked topics as whole words, with plurals, in any language', () => {
+    expect(checkSafety('He had two GUNS', settings())).toEqual({ category: 'blockedContent', rule: 'violence' });
+    expect(checkSafety('Eres un estúpido', settings())).toEqual({ category: 'blockedContent', rule: 'insults' });
+    expect(checkSafety('मुझे भूत से डर लगता है', settings())).toEqual({ category: 'blockedContent', rule: 'scary' });
+    expect(checkSafety('Shut up!', settings())).toEqual({ category: 'blockedContent', rule: 'insults' });
+    // "Skill" contains "kill" but is not the word
+    expect(checkSafety('Counting is a great skill', settings())).toBeNull();
+  });
+
+  it('only checks the topics the parent blocked', () => {
+    expect(checkSafety('A ghost story', settings({ blockedTopics: ['violence'] }))).toBeNull();
+  });
+
+  it('finds the parent\'s own blocked words', () => {
+    const custom = settings({ blockedWords: ['Homework ', 'piñata'] });
+    expect(checkSafety('No more homework', custom)).toEqual({ category: 'blockedContent', rule: 'Homework ' });
+    expect(checkSafety('Una pinata grande', custom)).toEqual({ category: 'blockedContent', rule: 'piñata' });
+    expect(checkSafety('anything', settings({ blockedWords: ['  '] }))).toBeNull();
+  });
+
+  it('reports blocked content before personal details', () => {
+    expect(checkSafety('My email is kid@example.com, stupid', settings())?.category).toBe('blockedContent');
+  });
+
+  it('finds personal details', () => {
+    const rule = (text: string) => checkSafety(text, settings())?.rule;
+    expect(rule('Write to mom@example.com')).toBe('email');
+    expect(rule('Call me on 555-123-4567')).toBe('phone');
+    expect(rule('We live at 42 Maple Street')).toBe('address');
+    expect(rule('Mi dirección es calle falsa')).toBe('address');
+    expect(rule('My last name is Smith')).toBe('name');
+    expect(rule('What is your address?')).toBe('request');
+    expect(rule('¿Dónde vives?')).toBe('request');
+  });
+
+  it('does not mistake counting for a phone number', () => {
+    expect(checkSafety('1 2 3 4 5 6 7 8', settings())).toBeNull();
+    expect(checkSafety('9, 8, 7, 6, 5, 4, 3', settings())).toBeNull();
+  });
+
+  it('skips personal details when the parent turned that off', () => {
+    expect(checkSafety('Call me on 555-123-4567', settings({ detectPersonalInfo: false }))).toBeNull();
+  });
+});
+
+describe('redactPersonalInfo', () => {
+  it('hides emails, phone numbers and street addresses', () => {
+    expect(redactPersonalInfo('Email mom@example.com or call 555-123-4567.')).toBe('Email *** or call ***.');
+    expect(redactPersonalInfo('Our house is 42 Maple Street')).toBe('Our house is ***');
+  });
+
+  it('keeps the lead-in and hides the rest of the sentence', () => {
+    expect(redactPersonalInfo('My last name is Smith. I like cats!')).toBe('My last name is ***. I like cats!');
+    expect(redactPersonalInfo('I live at the blue house near the park')).toBe('I live at ***');
+    expect(redactPersonalInfo('मेरा पता दिल्ली में है। मुझे गणित पसंद है')).toBe('मेरा पता ***। मुझे गणित पसंद है');
+  });
+
+  it('leaves counting and questions alone', () => {
+    expect(redactPersonalInfo('Count with me: 1 2 3 4 5 6 7 8')).toBe('Count with me: 1 2 3 4 5 6 7 8');
+    expect(redactPersonalInfo('Where do you live?')).toBe('Where do you live?');
+  });
+});
+
+describe('isOffTopic', () => {
+  it('is only off topic when both topics are known and differ', () => {
+    expect(isOffTopic('Shapes', 'Counting')).toBe(true);
+    expect(isOffTopic('Shapes', 'Shapes')).toBe(false);
+    expect(isOffTopic(undefined, 'Counting')).toBe(false);
+    expect(isOffTopic('Shapes', undefined)).toBe(false);
+  });
+});
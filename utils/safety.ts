@@ -0,0 +1,134 @@
+import { SafetyCategory, SafetySettings } from '../types';
+
+/**
+ * Words that belong to topics a parent can block, in every supported language.
+ * Matched as whole words, ignoring case and accents.
+ */
+export const SAFETY_TOPICS: Record<string, string[]> = {
+  violence: ['kill', 'gun', 'knife', 'shoot', 'blood', 'weapon', 'bomb', 'matar', 'pistola', 'cuchillo', 'sangre', 'arma', 'bomba', 'बंदूक', 'चाकू', 'खून', 'हथियार', 'बम'],
+  scary: ['ghost', 'zombie', 'monster', 'nightmare', 'fantasma', 'zombi', 'monstruo', 'pesadilla', 'भूत', 'राक्षस', 'चुड़ैल'],
+  adult: ['sex', 'sexy', 'naked', 'porn', 'sexo', 'desnudo', 'desnuda', 'सेक्स', 'नंगा', 'नंगी'],
+  drugs: ['drugs', 'beer', 'wine', 'alcohol', 'cigarette', 'vape', 'drogas', 'cerveza', 'vino', 'cigarro', 'शराब', 'सिगरेट', 'नशा', 'बीयर'],
+  insults: ['stupid', 'idiot', 'dumb', 'shut up', 'estupido', 'idiota', 'tonto', 'tonta', 'callate', 'बेवकूफ', 'मूर्ख', 'गधा'],
+};
+
+export const DEFAULT_SAFETY: SafetySettings = {
+  blockedTopics: Object.keys(SAFETY_TOPICS),
+  blockedWords: [],
+  detectPersonalInfo: true,
+  keepOnTopic: true,
+};
+
+// Answers in a row on another topic before Mimi is steered back to the focus topic
+export const DRIFT_THRESHOLD = 2;
+
+export interface SafetyFinding {
+  category: SafetyCategory;
+  rule: string;
+}
+
+interface PersonalInfoPattern {
+  rule: string;
+  pattern: RegExp; // A first capture group is kept when redacting, the rest of the match is hidden
+  redact: boolean;
+}
+
+const HIDDEN = '***';
+
+// The end of a sentence, including the Devanagari full stop
+const REST_OF_SENTENCE = String.raw`[^.!?।]*`;
+
+const PERSONAL_INFO_PATTERNS: PersonalInfoPattern[] = [
+  { rule: 'email', pattern: /[\w.+-]+@[\w-]+\.[\w.]+/gu, redact: true },
+  { rule: 'phone', pattern: /\+?\d[\d\s().-]{5,}\d/gu, redact: true },
+  {
+    rule: 'address',
+    pattern: /\b\d{1,5}\s+(?:[\p{L}]+\s+){0,3}(?:street|st|road|rd|avenue|ave|lane|drive|boulevard|way|court|calle|avenida|camino)\b/giu,
+    redact: true,
+  },
+  {
+    rule: 'address',
+    pattern: new RegExp(String.raw`(i live (?:at|on)|my address is|mi direcci[oó]n es|vivo en la calle|मेरा पता)` + REST_OF_SENTENCE, 'giu'),
+    redact: true,
+  },
+  {
+    rule: 'name',
+    pattern: new RegExp(String.raw`(my (?:last|full|whole|family) name is|my surname is|mi apellido es|mi nombre completo es|मेरा पूरा नाम)` + REST_OF_SENTENCE, 'giu'),
+    redact: true,
+  },
+  // Mimi should never ask for these, even if nothing has been shared yet
+  {
+    rule: 'request',
+    pattern: /what(?:'s| is) your (?:address|phone number|last name|full name|surname)|where do you live|which school do you go to|d[oó]nde vives|cu[aá]l es tu (?:direcci[oó]n|apellido)|tu n[uú]mero de tel[eé]fono|तुम कहाँ रहते हो|तुम्हारा पता|तुम्हारा फ़ोन नंबर/giu,
+    redact: false,
+  },
+];
+
+// Lower case without accents, as space-separated words with a space at each end
+const toWords = (text: string): string =>
+  ` ${text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean).join(' ')} `;
+
+const containsWord = (words: string, word: string): boolean => {
+  const target = toWords(word);
+  if (target.trim() === '') return false;
+  // Allow simple plurals, e.g. "gun" also matches "guns"
+  return words.includes(target) || words.includes(`${target.trimEnd()}s `);
+};
+
+// Counting out loud ("1 2 3 4 5 6 7") looks like a phone number but isn't one
+const isCountingSequence = (digits: string): boolean => {
+  const steps = new Set<number>();
+  for (let i = 1; i < digits.length; i++) steps.add(Number(digits[i]) - Number(digits[i - 1]));
+  return steps.size === 1 && (steps.has(1) || steps.has(-1));
+};
+
+const isPhoneNumber = (match: string): boolean => {
+  const digits = match.replace(/\D/g, '');
+  return digits.length >= 7 && !isCountingSequence(digits);
+};
+
+const findPersonalInfo = (text: string): PersonalInfoPattern | undefined =>
+  PERSONAL_INFO_PATTERNS.find(({ rule, pattern }) => {
+    const matches = text.match(pattern) ?? [];
+    return rule === 'phone' ? matches.some(isPhoneNumber) : matches.length > 0;
+  });
+
+/**
+ * Checks something said during a class against the child's safety settings.
+ * Blocked content is reported before personal details.
+ */
+export function checkSafety(text: string, settings: SafetySettings): SafetyFinding | null {
+  const words = toWords(text);
+
+  for (const topic of settings.blockedTopics) {
+    if (SAFETY_TOPICS[topic]?.some(word => containsWord(words, word))) {
+      return { category: 'blockedContent', rule: topic };
+    }
+  }
+  const blockedWord = settings.blockedWords.find(word => containsWord(words, word));
+  if (blockedWord) return { category: 'blockedContent', rule: blockedWord };
+
+  if (settings.detectPersonalInfo) {
+    const found = findPersonalInfo(text);
+    if (found) return { category: 'personalInfo', rule: found.rule };
+  }
+  return null;
+}
+
+/**
+ * Hides addresses, phone numbers, emails and full names so they are never stored.
+ */
+export function redactPersonalInfo(text: string): string {
+  return PERSONAL_INFO_PATTERNS
+    .filter(p => p.redact)
+    .reduce((result, { rule, pattern }) => result.replace(pattern, (match: string, lead?: string) => {
+      if (rule === 'phone' && !isPhoneNumber(match)) return match;
+      return typeof lead === 'string' ? `${lead} ${HIDDEN}` : HIDDEN;
+    }), text);
+}
+
+/**
+ * Whether an answer Mimi evaluated was on a different topic than the one the child chose.
+ */
+export const isOffTopic = (focusTopic: string | undefined, topic: string | undefined): boolean =>
+  !!focusTopic && !!topic && topic !== focusTopic;
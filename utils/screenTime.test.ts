@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecord } from '../types';
+import { getMinutesUsedToday, getScreenTimeStatus, isValidTimeOfDay, NO_LIMITS } from './screenTime';
+
+// Local time on a fixed day, as the limits are in the child's time of day
+const at = (hours: number, minutes = 0, day = 10) => new Date(2026, 4, day, hours, minutes).getTime();
+
+const session = (startedAt: number, minutes: number | null): SessionRecord => ({
+  id: `s${startedAt}`,
+  startedAt,
+  endedAt: minutes === null ? undefined : startedAt + minutes * 60000,
+  difficulty: 'beginner',
+});
+
+describe('isValidTimeOfDay', () => {
+  it('accepts 24-hour times', () => {
+    expect(['00:00', '09:30', '23:59'].every(isValidTimeOfDay)).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(['24:00', '9:30', '12:60', '12:00pm', ''].some(isValidTimeOfDay)).toBe(false);
+  });
+});
+
+describe('getMinutesUsedToday', () => {
+  it('counts finished sessions that started today', () => {
+    const sessions = [session(at(8), 10), session(at(12), 15), session(at(23, 50, 9), 30), session(at(14), null)];
+    expect(getMinutesUsedToday(sessions, at(18))).toBe(25);
+  });
+
+  it('counts a class that was never closed off until it was last seen', () => {
+    const unfinished = { ...session(at(9), null), lastActiveAt: at(9, 20) };
+    expect(getMinutesUsedToday([unfinished], at(18))).toBe(20);
+  });
+});
+
+describe('getScreenTimeStatus', () => {
+  it('allows any class without limits', () => {
+    expect(getScreenTimeStatus(NO_LIMITS, [session(at(8), 600)], at(18))).toEqual({ allowed: true, usedToday: 600, minutesLeft: undefined });
+  });
+
+  it('uses the shortest of the session length and what is left of the day', () => {
+    const limits = { maxSessionMinutes: 20, dailyMinutes: 45, allowedWindows: [] };
+    expect(getScreenTimeStatus(limits, [], at(18)).minutesLeft).toBe(20);
+    expect(getScreenTimeStatus(limits, [session(at(9), 30)], at(18)).minutesLeft).toBe(15);
+  });
+
+  it('stops classes once the daily minutes are used up', () => {
+    const limits = { dailyMinutes: 30, allowedWindows: [] };
+    expect(getScreenTimeStatus(limits, [session(at(9), 29.5)], at(18))).toEqual({ allowed: false, reason: 'daily', usedToday: 29.5 });
+  });
+
+  it('only allows classes inside a window, until it closes', () => {
+    const limits = { allowedWindows: [{ start: '16:00', end: '18:30' }] };
+    expect(getScreenTimeStatus(limits, [], at(18)).minutesLeft).toBe(30);
+    expect(getScreenTimeStatus(limits, [], at(16))).toMatchObject({ allowed: true, minutesLeft: 150 });
+    expect(getScreenTimeStatus(limits, [], at(18, 30))).toMatchObject({ allowed: false, reason: 'window' });
+    expect(getScreenTimeStatus(limits, [], at(9))).toMatchObject({ allowed: false, reason: 'window' });
+  });
+
+  it('handles windows that run past midnight', () => {
+    const limits = { allowedWindows: [{ start: '22:00', end: '01:00' }] };
+    expect(getScreenTimeStatus(limits, [], at(23)).minutesLeft).toBe(120);
+    expect(getScreenTimeStatus(limits, [], at(0, 30)).minutesLeft).toBe(30);
+    expect(getScreenTimeStatus(limits, [], at(12)).allowed).toBe(false);
+  });
+
+  it('uses the open window that lasts longest and skips broken ones', () => {
+    const limits = {
+      allowedWindows: [
+        { start: '17:00', end: '18:10' },
+        { start: '16:00', end: '19:00' },
+        { start: '25:00', end: '26:00' },
+        { start: '18:00', end: '18:00' },
+      ],
+    };
+    expect(getScreenTimeStatus(limits, [], at(18)).minutesLeft).toBe(60);
+  });
+});
@@ -0,0 +1,80 @@
+import { ScreenTimeLimits, SessionRecord, TimeWindow } from '../types';
+import { getSessionMinutes, toDayKey } from './analytics';
+
+export const NO_LIMITS: ScreenTimeLimits = { allowedWindows: [] };
+
+// Mimi is asked to wrap up this long before a session's time runs out
+export const WIND_DOWN_MINUTES = 2;
+
+export interface ScreenTimeStatus {
+  allowed: boolean;
+  reason?: 'daily' | 'window'; // Why a class can't start right now
+  usedToday: number; // Minutes
+  minutesLeft?: number; // Longest class that can start now; missing when there is no limit
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const isValidTimeOfDay = (value: string): boolean => /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+const toMinuteOfDay = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Minutes from `minuteOfDay` until the window closes, or null if the window is not open then.
+ */
+const getMinutesUntilClose = (window: TimeWindow, minuteOfDay: number): number | null => {
+  if (!isValidTimeOfDay(window.start) || !isValidTimeOfDay(window.end)) return null;
+  const start = toMinuteOfDay(window.start);
+  const end = toMinuteOfDay(window.end);
+  if (start === end) return null;
+  // Shift everything so the window starts at 0; handles windows past midnight
+  const length = (end - start + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const elapsed = (minuteOfDay - start + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return elapsed < length ? length - elapsed : null;
+};
+
+/**
+ * Minutes of class the child has had today. Sessions count on the day they started.
+ */
+export function getMinutesUsedToday(sessions: SessionRecord[], now = Date.now()): number {
+  const today = toDayKey(now);
+  return sessions
+    .filter(s => toDayKey(s.startedAt) === today)
+    .reduce((sum, s) => sum + getSessionMinutes(s), 0);
+}
+
+/**
+ * Whether a class may start now and, if so, how long it may run before the
+ * session length, daily quota or current time window runs out.
+ */
+export function getScreenTimeStatus(limits: ScreenTimeLimits, sessions: SessionRecord[], now = Date.now()): ScreenTimeStatus {
+  const usedToday = getMinutesUsedToday(sessions, now);
+  const candidates: number[] = [];
+
+  if (limits.maxSessionMinutes) candidates.push(limits.maxSessionMinutes);
+
+  if (limits.dailyMinutes) {
+    const remaining = limits.dailyMinutes - usedToday;
+    if (remaining < 1) return { allowed: false, reason: 'daily', usedToday };
+    candidates.push(remaining);
+  }
+
+  if (limits.allowedWindows.length > 0) {
+    const date = new Date(now);
+    const minuteOfDay = date.getHours() * 60 + date.getMinutes();
+    const open = limits.allowedWindows
+      .map(w => getMinutesUntilClose(w, minuteOfDay))
+      .filter((m): m is number => m !== null);
+    if (open.length === 0) return { allowed: false, reason: 'window', usedToday };
+    candidates.push(Math.max(...open));
+  }
+
+  return {
+    allowed: true,
+    usedToday,
+    minutesLeft: candidates.length > 0 ? Math.min(...candidates) : undefined,
+  };
+}
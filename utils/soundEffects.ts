@@ -1,50 +1,200 @@
+import { SoundSettings, SoundThemeId } from '../types';
+
+// Moments in a class that get a sound effect
+export type SoundEvent = 'correct' | 'incorrect' | 'streak' | 'levelUp' | 'sessionStart' | 'sessionEnd' | 'badge';
+
+export const DEFAULT_SOUNDS: SoundSettings = { theme: 'chimes', volume: 0.8, muted: false };
+export const SOUND_THEMES: SoundThemeId[] = ['chimes', 'arcade', 'marimba'];
+// Every this many right answers in a row, the streak sound plays instead of the usual one
+export const STREAK_LENGTH = 3;
+
+// Effects are turned down to this while Mimi talks, so they never drown her out
+const DUCKED_GAIN = 0.35;
+const DUCK_TIME_CONSTANT_S = 0.03;
+const ATTACK_S = 0.02;
+
+interface Note {
+  frequency: number;
+  at: number;        // Seconds after the sound starts
+  duration: number;
+  wave?: OscillatorType;
+  peak?: number;     // Loudness at full volume
+  glideTo?: number;  // Slides to this frequency over the note
+  vibrato?: number;  // Wobble in Hz, for sparkle
+}
+
+type SoundTheme = Record<SoundEvent, Note[]>;
+
+// Notes in Hz
+const C4 = 261.63, E4 = 329.63, G4 = 392.0, A4 = 440.0, B4 = 493.88;
+const C5 = 523.25, D5 = 587.33, E5 = 659.25, G5 = 783.99, A5 = 880.0, B5 = 987.77;
+const C6 = 1046.5, E6 = 1318.51, G6 = 1567.98, C7 = 2093.0;
+
+const arpeggio = (frequencies: number[], step: number, note: Omit<Note, 'frequency' | 'at'>): Note[] =>
+  frequencies.map((frequency, i) => ({ ...note, frequency, at: i * step }));
+
+const THEMES: Record<SoundThemeId, SoundTheme> = {
+  // Soft sine chimes
+  chimes: {
+    correct: arpeggio([C5, E5, G5], 0.1, { duration: 0.5, peak: 0.15 }), // Major triad
+    incorrect: [{ frequency: A4, glideTo: E4, at: 0, duration: 0.5, wave: 'triangle', peak: 0.08 }], // Gentle "try again" drop
+    streak: arpeggio([C5, E5, G5, C6], 0.08, { duration: 0.5, peak: 0.12 }),
+    levelUp: [
+      ...arpeggio([G4, B4, D5], 0.12, { duration: 0.3, wave: 'triangle', peak: 0.12 }),
+      { frequency: G5, at: 0.36, duration: 0.8, wave: 'triangle', peak: 0.12 },
+      { frequency: B5, at: 0.36, duration: 0.8, peak: 0.08 },
+    ],
+    sessionStart: arpeggio([E5, A5], 0.15, { duration: 0.4, peak: 0.1 }),
+    sessionEnd: arpeggio([A5, E5], 0.15, { duration: 0.5, peak: 0.1 }),
+    badge: [
+      ...arpeggio([G4, C5, E5, G5], 0.09, { duration: 0.2, wave: 'square', peak: 0.05 }),
+      { frequency: C6, at: 0.36, duration: 0.8, wave: 'triangle', peak: 0.15, vibrato: 8 },
+    ],
+  },
+  // Square-wave blips like an old games console
+  arcade: {
+    correct: [
+      { frequency: B5, at: 0, duration: 0.08, wave: 'square', peak: 0.05 },
+      { frequency: E6, at: 0.08, duration: 0.25, wave: 'square', peak: 0.05 },
+    ],
+    incorrect: [{ frequency: 300, glideTo: 150, at: 0, duration: 0.35, wave: 'square', peak: 0.04 }],
+    streak: arpeggio([C6, E6, G6, C7], 0.05, { duration: 0.12, wave: 'square', peak: 0.04 }),
+    levelUp: [
+      { frequency: 200, glideTo: 1200, at: 0, duration: 0.4, wave: 'square', peak: 0.04 },
+      { frequency: C6, at: 0.4, duration: 0.3, wave: 'square', peak: 0.05 },
+    ],
+    sessionStart: arpeggio([C5, G5], 0.08, { duration: 0.15, wave: 'square', peak: 0.04 }),
+    sessionEnd: arpeggio([G5, C5], 0.08, { duration: 0.25, wave: 'square', peak: 0.04 }),
+    badge: [
+      ...arpeggio([C5, E5, G5, C6, E6, G6], 0.06, { duration: 0.1, wave: 'square', peak: 0.04 }),
+      { frequency: C7, at: 0.36, duration: 0.5, wave: 'square', peak: 0.04, vibrato: 10 },
+    ],
+  },
+  // Short, woody notes that fade quickly
+  marimba: {
+    correct: arpeggio([G5, C6], 0.12, { duration: 0.35, peak: 0.2 }),
+    incorrect: arpeggio([E4, C4], 0.15, { duration: 0.4, peak: 0.15 }),
+    streak: arpeggio([C5, E5, G5, C6, E6], 0.1, { duration: 0.3, peak: 0.15 }),
+    levelUp: [
+      ...arpeggio([C5, G5, C6], 0.15, { duration: 0.3, peak: 0.18 }),
+      { frequency: E6, at: 0.45, duration: 0.6, peak: 0.15 },
+    ],
+    sessionStart: arpeggio([C5, G5], 0.15, { duration: 0.4, peak: 0.15 }),
+    sessionEnd: arpeggio([G5, C5], 0.15, { duration: 0.5, peak: 0.15 }),
+    badge: [
+      ...arpeggio([C5, E5, G5, C6], 0.1, { duration: 0.3, peak: 0.15 }),
+      { frequency: E6, at: 0.45, duration: 0.8, peak: 0.12 },
+      { frequency: G6, at: 0.45, duration: 0.8, peak: 0.1 },
+    ],
+  },
+};
+
+const playNote = (ctx: AudioContext, destination: AudioNode, note: Note, start: number, volume: number) => {
+  const begin = start + note.at;
+  const end = begin + note.duration;
+  const peak = (note.peak ?? 0.1) * volume;
+
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.connect(gain);
+  gain.connect(destination);
+
+  osc.type = note.wave ?? 'sine';
+  osc.frequency.setValueAtTime(note.frequency, begin);
+  if (note.glideTo) osc.frequency.linearRampToValueAtTime(note.glideTo, end);
+  gain.gain.setValueAtTime(0, begin);
+  gain.gain.linearRampToValueAtTime(peak, begin + ATTACK_S);
+  gain.gain.exponentialRampToValueAtTime(peak / 100, end);
+
+  if (note.vibrato) {
+    const lfo = ctx.createOscillator();
+    const depth = ctx.createGain();
+    lfo.connect(depth);
+    depth.connect(osc.frequency);
+    lfo.frequency.setValueAtTime(note.vibrato, begin);
+    depth.gain.setValueAtTime(note.frequency * 0.012, begin);
+    lfo.start(begin);
+    lfo.stop(end);
+  }
+
+  osc.start(begin);
+  osc.stop(end);
+};
+
+export interface SoundEngine {
+  /** Plays the sound for an event, using the given settings instead of the current ones if passed. */
+  play(event: SoundEvent, settings?: SoundSettings): void;
+  setSettings(settings: SoundSettings): void;
+  /** Routes effects through a session's output context until detach is called. */
+  attach(ctx: AudioContext): void;
+  detach(): void;
+  /** Turns effects down while Mimi is talking. */
+  setDucked(ducked: boolean): void;
+}
+
 /**
- * Plays a generated sound effect for feedback.
- * @param isCorrect true for a positive chime, false for a gentle encouraging sound.
+ * Plays synthesized feedback sounds in the chosen theme. During a class, effects
+ * share the session's output context; between classes they use a single context
+ * of their own, created on first use and kept for the life of the page.
  */
-export const playFeedbackSound = (isCorrect: boolean) => {
-  try {
-    const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-    const ctx = new AudioContext();
-    const t = ctx.currentTime;
-
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-
-    osc.connect(gain);
-    gain.connect(ctx.destination);
-
-    if (isCorrect) {
-      // Happy Chime: C5 -> E5 -> G5 (Major Triad)
-      osc.type = 'sine';
-      osc.frequency.setValueAtTime(523.25, t); // C5
-      osc.frequency.setValueAtTime(659.25, t + 0.1); // E5
-      osc.frequency.setValueAtTime(783.99, t + 0.2); // G5
-      
-      // Volume envelope
-      gain.gain.setValueAtTime(0, t);
-      gain.gain.linearRampToValueAtTime(0.15, t + 0.05);
-      gain.gain.setValueAtTime(0.15, t + 0.25);
-      gain.gain.exponentialRampToValueAtTime(0.001, t + 0.6);
-      
-      osc.start(t);
-      osc.stop(t + 0.6);
-    } else {
-      // Gentle "Try Again" Sound: A4 -> E4 (Minor drop)
-      // Uses triangle wave for a warmer, slightly distinctive tone vs the sine wave voice
-      osc.type = 'triangle';
-      osc.frequency.setValueAtTime(440, t); // A4
-      osc.frequency.linearRampToValueAtTime(329.63, t + 0.3); // E4
-      
-      // Volume envelope
-      gain.gain.setValueAtTime(0, t);
-      gain.gain.linearRampToValueAtTime(0.08, t + 0.05);
-      gain.gain.exponentialRampToValueAtTime(0.001, t + 0.5);
-      
-      osc.start(t);
-      osc.stop(t + 0.5);
+export function createSoundEngine(): SoundEngine {
+  let current = DEFAULT_SOUNDS;
+  let ducked = false;
+  let ownContext: AudioContext | null = null;
+  let output: { ctx: AudioContext; bus: GainNode } | null = null;
+
+  const connectBus = (ctx: AudioContext) => {
+    const bus = ctx.createGain();
+    bus.gain.value = ducked ? DUCKED_GAIN : 1;
+    bus.connect(ctx.destination);
+    return { ctx, bus };
+  };
+
+  const getOutput = () => {
+    if (!output) {
+      if (!ownContext) {
+        const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+        ownContext = new AudioContext();
+      }
+      output = connectBus(ownContext);
     }
-  } catch (e) {
-    console.warn("Could not play feedback sound", e);
-  }
-};
\ No newline at end of file
+    return output;
+  };
+
+  return {
+    play(event, settings = current) {
+      if (settings.muted || settings.volume <= 0) return;
+      try {
+        const { ctx, bus } = getOutput();
+        // Browsers start contexts suspended until the page has been interacted with
+        if (ctx.state === 'suspended') ctx.resume();
+        const start = ctx.currentTime;
+        for (const note of THEMES[settings.theme][event]) {
+          playNote(ctx, bus, note, start, settings.volume);
+        }
+      } catch (e) {
+        console.warn("Could not play sound effect", e);
+      }
+    },
+    setSettings(settings) {
+      current = settings;
+    },
+    attach(ctx) {
+      if (output?.ctx === ctx) return;
+      output?.bus.disconnect();
+      output = connectBus(ctx);
+    },
+    detach() {
+      output?.bus.disconnect();
+      output = null;
+      ducked = false;
+    },
+    setDucked(value) {
+      ducked = value;
+      if (output) output.bus.gain.setTargetAtTime(ducked ? DUCKED_GAIN : 1, output.ctx.currentTime, DUCK_TIME_CONSTANT_S);
+    },
+  };
+}
+
+// Shared by the live session, the celebrations and the parent dashboard
+export const soundEngine = createSoundEngine();
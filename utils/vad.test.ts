@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { CaptureChunk } from './captureWorklet';
+import { createVoiceGate } from './vad';
+
+const QUIET = 0.001;
+const SPEECH = 0.1;
+
+// Chunks are numbered through their first sample so tests can tell them apart
+let count = 0;
+const chunk = (rms: number): CaptureChunk => ({ pcm: new Int16Array([count++]), rms });
+const ids = (chunks: CaptureChunk[]) => chunks.map(c => c.pcm[0]);
+
+describe('createVoiceGate', () => {
+  it('keeps quiet audio back', () => {
+    const gate = createVoiceGate();
+    for (let i = 0; i < 20; i++) {
+      expect(gate.process(chunk(QUIET), false)).toEqual({ chunks: [], isSpeaking: false, speechEnded: false });
+    }
+  });
+
+  it('opens after two loud chunks and sends the pre-roll with them', () => {
+    const gate = createVoiceGate();
+    const quiet = Array.from({ length: 5 }, () => chunk(QUIET));
+    quiet.forEach(c => gate.process(c, false));
+    const first = chunk(SPEECH);
+    expect(gate.process(first, false).chunks).toEqual([]);
+
+    const second = chunk(SPEECH);
+    const opened = gate.process(second, false);
+    expect(opened.isSpeaking).toBe(true);
+    expect(ids(opened.chunks)).toEqual(ids([...quiet.slice(-3), first, second]));
+  });
+
+  it('ignores a single loud chunk', () => {
+    const gate = createVoiceGate();
+    gate.process(chunk(SPEECH), false);
+    expect(gate.process(chunk(QUIET), false).isSpeaking).toBe(false);
+    expect(gate.process(chunk(SPEECH), false).isSpeaking).toBe(false);
+  });
+
+  it('passes speech through and closes after 600ms of quiet', () => {
+    const gate = createVoiceGate();
+    gate.process(chunk(SPEECH), false);
+    gate.process(chunk(SPEECH), false);
+
+    const results = Array.from({ length: 6 }, () => gate.process(chunk(QUIET), false));
+    results.forEach(result => expect(result.chunks).toHaveLength(1));
+    expect(results.slice(0, 5).every(r => r.isSpeaking && !r.speechEnded)).toBe(true);
+    expect(results[5]).toMatchObject({ isSpeaking: false, speechEnded: true });
+    expect(gate.process(chunk(QUIET), false).chunks).toEqual([]);
+  });
+
+  it('needs a louder voice to barge in while Mimi is talking', () => {
+    const gate = createVoiceGate();
+    gate.process(chunk(0.02), true);
+    expect(gate.process(chunk(0.02), true).isSpeaking).toBe(false);
+
+    gate.process(chunk(SPEECH), true);
+    expect(gate.process(chunk(SPEECH), true).isSpeaking).toBe(true);
+  });
+
+  it('follows the noise floor of a loud room', () => {
+    const gate = createVoiceGate();
+    // Steady noise just under the starting threshold raises the floor
+    for (let i = 0; i < 100; i++) gate.process(chunk(0.014), false);
+    gate.process(chunk(0.03), false);
+    expect(gate.process(chunk(0.03), false).isSpeaking).toBe(false);
+
+    gate.process(chunk(SPEECH), false);
+    expect(gate.process(chunk(SPEECH), false).isSpeaking).toBe(true);
+  });
+
+  it('starts over after a reset', () => {
+    const gate = createVoiceGate();
+    gate.process(chunk(SPEECH), false);
+    gate.process(chunk(SPEECH), false);
+    gate.reset();
+    expect(gate.process(chunk(QUIET), false)).toMatchObject({ chunks: [], isSpeaking: false });
+  });
+});
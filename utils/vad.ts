@@ -0,0 +1,77 @@
+import { CaptureChunk } from './captureWorklet';
+
+// Thresholds are in RMS of 100ms capture chunks
+const MIN_SPEECH_RMS = 0.015;
+const NOISE_FLOOR_MULTIPLIER = 3;
+// While Mimi talks the child has to be clearly louder to barge in
+const BARGE_IN_MULTIPLIER = 2.5;
+const ONSET_CHUNKS = 2;    // 200ms of speech before the gate opens
+const HANGOVER_CHUNKS = 6; // 600ms of quiet before the gate closes
+const PRE_ROLL_CHUNKS = 3; // 300ms sent ahead of detected speech so first syllables aren't clipped
+
+export interface VoiceGateResult {
+  chunks: CaptureChunk[]; // Audio to send now, in order
+  isSpeaking: boolean;
+  speechEnded: boolean;   // True on the chunk where the gate closes
+}
+
+export interface VoiceGate {
+  process(chunk: CaptureChunk, mimiSpeaking: boolean): VoiceGateResult;
+  reset(): void;
+}
+
+/**
+ * Energy-based voice activity detector that only lets speech through.
+ * It follows the room's noise floor so a humming fridge or a busy classroom
+ * doesn't hold the gate open.
+ */
+export function createVoiceGate(): VoiceGate {
+  let noiseFloor = MIN_SPEECH_RMS / NOISE_FLOOR_MULTIPLIER;
+  let speaking = false;
+  let loudChunks = 0;
+  let quietChunks = 0;
+  let preRoll: CaptureChunk[] = [];
+
+  return {
+    process(chunk, mimiSpeaking) {
+      const { rms } = chunk;
+      let threshold = Math.max(MIN_SPEECH_RMS, noiseFloor * NOISE_FLOOR_MULTIPLIER);
+      if (mimiSpeaking) threshold *= BARGE_IN_MULTIPLIER;
+      const isLoud = rms >= threshold;
+
+      // The floor drops quickly and rises slowly, and only learns from quiet audio
+      if (!isLoud) {
+        noiseFloor += (rms - noiseFloor) * (rms < noiseFloor ? 0.3 : 0.05);
+      }
+
+      if (!speaking) {
+        loudChunks = isLoud ? loudChunks + 1 : 0;
+        preRoll.push(chunk);
+        if (loudChunks >= ONSET_CHUNKS) {
+          speaking = true;
+          quietChunks = 0;
+          const chunks = preRoll.slice(-(PRE_ROLL_CHUNKS + ONSET_CHUNKS));
+          preRoll = [];
+          return { chunks, isSpeaking: true, speechEnded: false };
+        }
+        preRoll = preRoll.slice(-(PRE_ROLL_CHUNKS + ONSET_CHUNKS));
+        return { chunks: [], isSpeaking: false, speechEnded: false };
+      }
+
+      quietChunks = isLoud ? 0 : quietChunks + 1;
+      if (quietChunks >= HANGOVER_CHUNKS) {
+        speaking = false;
+        loudChunks = 0;
+        return { chunks: [chunk], isSpeaking: false, speechEnded: true };
+      }
+      return { chunks: [chunk], isSpeaking: true, speechEnded: false };
+    },
+
+    reset() {
+      speaking = false;
+      loudChunks = 0;
+      quietChunks = 0;
+      preRoll = [];
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { VisualAid } from '../types';
+
+export const SHAPES = ['circle', 'square', 'triangle', 'rectangle', 'oval', 'star', 'heart', 'diamond', 'pentagon', 'hexagon'] as const;
+export const COUNT_ITEMS = ['apple', 'star', 'ball', 'dot'] as const;
+export const MAX_COUNT = 20;
+
+export const COLORS: Record<string, string> = {
+  red: '#ef4444',
+  orange: '#f97316',
+  yellow: '#facc15',
+  green: '#22c55e',
+  blue: '#3b82f6',
+  purple: '#a855f7',
+  pink: '#ec4899',
+  brown: '#92400e',
+  black: '#1f2937',
+  white: '#ffffff',
+  gray: '#9ca3af',
+};
+export const COLOR_NAMES = Object.keys(COLORS);
+
+export type ShapeName = typeof SHAPES[number];
+export type CountItem = typeof COUNT_ITEMS[number];
+
+const includes = <T extends string>(list: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (list as readonly string[]).includes(value);
+
+const toInteger = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : null;
+
+const toColor = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.toLowerCase() in COLORS ? value.toLowerCase() : undefined;
+
+/**
+ * Turns the arguments of a show* tool call into a visual aid.
+ * Returns an error message for the model if the arguments can't be drawn.
+ */
+export function parseVisualAid(toolName: string, args: Record<string, unknown> = {}): { aid?: VisualAid; error?: string } {
+  switch (toolName) {
+    case 'showShape': {
+      const shape = typeof args.shape === 'string' ? args.shape.toLowerCase() : args.shape;
+      if (!includes(SHAPES, shape)) return { error: `Unknown shape. Use one of: ${SHAPES.join(', ')}.` };
+      return { aid: { kind: 'shape', shape, color: toColor(args.color) } };
+    }
+    case 'showCount': {
+      const count = toInteger(args.count);
+      if (count === null || count < 0 || count > MAX_COUNT) return { error: `"count" must be a whole number from 0 to ${MAX_COUNT}.` };
+      return { aid: { kind: 'count', count, item: includes(COUNT_ITEMS, args.item) ? args.item : 'dot' } };
+    }
+    case 'showColor': {
+      const color = toColor(args.color);
+      if (!color) return { error: `Unknown color. Use one of: ${COLOR_NAMES.join(', ')}.` };
+      return { aid: { kind: 'color', color } };
+    }
+    case 'showClock': {
+      const hour = toInteger(args.hour);
+      const minute = toInteger(args.minute ?? 0);
+      if (hour === null || hour < 1 || hour > 12) return { error: '"hour" must be a whole number from 1 to 12.' };
+      if (minute === null || minute < 0 || minute > 59) return { error: '"minute" must be a whole number from 0 to 59.' };
+      return { aid: { kind: 'clock', hour, minute } };
+    }
+    default:
+      return { error: `Unknown visual aid "${toolName}".` };
+  }
+}